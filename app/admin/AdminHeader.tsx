@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { LogOut } from "lucide-react";
+import LanguageSwitcher from "../components/LanguageSwitcher";
+import { useT } from "../components/LocaleProvider";
+
+// Top bar of the admin pages: home link, orders/catalog navigation, language and sign-out.
+export default function AdminHeader() {
+    const t = useT();
+    const router = useRouter();
+    const pathname = usePathname();
+    const inCatalog = pathname.startsWith("/admin/catalog");
+    const sections = [
+        { href: "/admin", label: t("admin.orders"), active: !inCatalog },
+        { href: "/admin/catalog", label: t("admin.catalog"), active: inCatalog },
+    ];
+    const [isSigningOut, setIsSigningOut] = useState(false);
+
+    const signOut = async () => {
+        setIsSigningOut(true);
+        try {
+            await fetch("/api/admin/session", { method: "DELETE" });
+            router.replace("/admin/login");
+            router.refresh();
+        } finally {
+            setIsSigningOut(false);
+        }
+    };
+
+    return (
+        <header className="bg-white border-b border-gray-100">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between gap-4">
+                <div className="flex items-center gap-6">
+                    <Link href="/admin" className="font-bold text-gray-900 hover:text-brand-mint transition-colors">{t("admin.title")}</Link>
+                    <nav aria-label={t("admin.nav")} className="flex items-center gap-1">
+                        {sections.map((section) => (
+                            <Link
+                                key={section.href}
+                                href={section.href}
+                                aria-current={section.active ? "page" : undefined}
+                                className={`px-3 py-1.5 text-sm font-semibold rounded-lg transition-colors ${section.active ? 'bg-brand-mint/10 text-brand-mint' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'}`}
+                            >
+                                {section.label}
+                            </Link>
+                        ))}
+                    </nav>
+                </div>
+                <div className="flex items-center gap-3">
+                    <LanguageSwitcher />
+                    <button
+                        type="button"
+                        onClick={signOut}
+                        disabled={isSigningOut}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm font-semibold rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 disabled:opacity-50 transition-colors"
+                    >
+                        <LogOut size={16} /> {t("admin.signOut")}
+                    </button>
+                </div>
+            </div>
+        </header>
+    );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { ImagePlus, Loader2 } from "lucide-react";
+import { Base, Charm, productBases } from "../../../../lib/catalog";
+import { CatalogItemInput, CatalogKind, uploadCatalogImage } from "../../../../lib/catalogEdit";
+import { readImageFile, UPLOAD_TYPES } from "../../../../lib/upload";
+import { useCatalog } from "../../../../components/CatalogProvider";
+import { useT } from "../../../../components/LocaleProvider";
+
+type CatalogItemFormProps = {
+    kind: CatalogKind;
+    item: Base | Charm | null; // null: add a new one
+};
+
+const inputClass = "mt-1 w-full px-3 py-2 text-sm rounded-lg border border-gray-200 bg-white font-normal focus:border-brand-mint focus:outline-none";
+const labelClass = "block text-sm font-semibold text-gray-700";
+
+// Add or edit a base or charm: image (scaled and thumbnailed on upload),
+// name, price, stock, visibility, and a charm's category and search tags. A
+// new base also picks its product type and the existing base whose layout it
+// copies.
+export default function CatalogItemForm({ kind, item }: CatalogItemFormProps) {
+    const t = useT();
+    const router = useRouter();
+    const catalog = useCatalog();
+    const charm = kind === 'charms' ? item as Charm | null : null;
+
+    const [form, setForm] = useState(() => {
+        const productType = catalog.productTypes[0].id;
+        return {
+            name: item?.name ?? "",
+            price: item?.price ?? 0,
+            hidden: item?.hidden ?? false,
+            stock: item?.stock === undefined ? "" : String(item.stock), // Empty: not tracked
+            image: item?.image ?? "",
+            thumbnail: item?.thumbnail,
+            category: charm?.category ?? catalog.charmCategories[0].id,
+            tags: charm?.tags.join(", ") ?? "",
+            productType,
+            template: productBases(catalog, productType)[0].id,
+        };
+    });
+    const [isUploading, setIsUploading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const update = (fields: Partial<typeof form>) => setForm(f => ({ ...f, ...fields }));
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setError(null);
+        const read = await readImageFile(file);
+        if (!read.ok) {
+            setError(t(read.error));
+            return;
+        }
+        setIsUploading(true);
+        try {
+            update(await uploadCatalogImage(read.img, t));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t("admin.catalog.uploadFailed"));
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        setError(null);
+        const input: CatalogItemInput = {
+            name: form.name,
+            price: form.price,
+            hidden: form.hidden,
+            stock: form.stock === "" ? null : Number(form.stock),
+            image: form.image,
+            ...(form.thumbnail ? { thumbnail: form.thumbnail } : {}),
+            ...(kind === 'charms' ? { category: form.category, tags: form.tags.split(",").map(tag => tag.trim()).filter(Boolean) } : {}),
+            ...(kind === 'bases' && !item ? { productType: form.productType, template: form.template } : {}),
+        };
+        try {
+            const res = await fetch(item ? `/api/admin/catalog/${kind}/${item.id}` : `/api/admin/catalog/${kind}`, {
+                method: item ? "PATCH" : "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(input),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error || t("admin.catalog.saveFailed"));
+            router.push("/admin/catalog");
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t("admin.catalog.saveFailed"));
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+                <div className={labelClass}>{t("admin.catalog.image")}</div>
+                <div className="mt-1 flex items-center gap-4">
+                    <span className="relative w-24 h-24 flex-shrink-0 rounded-xl border border-gray-200 bg-gray-50 overflow-hidden">
+                        {form.image && <Image src={form.thumbnail ?? form.image} alt={form.name} fill sizes="96px" className="object-contain p-2" />}
+                    </span>
+                    <div>
+                        <input
+                            type="file"
+                            accept={UPLOAD_TYPES.join(",")}
+                            onChange={(e) => handleFile(e.target.files?.[0])}
+                            disabled={isUploading}
+                            className="sr-only"
+                            id="catalog-image"
+                        />
+                        <label
+                            htmlFor="catalog-image"
+                            className={`inline-flex items-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg border border-dashed border-gray-300 text-gray-600 transition-colors ${isUploading ? 'opacity-50' : 'cursor-pointer hover:border-brand-mint hover:text-brand-mint'}`}
+                        >
+                            {isUploading
+                                ? <><Loader2 size={16} className="animate-spin" /> {t("admin.catalog.uploading")}</>
+                                : <><ImagePlus size={16} /> {form.image ? t("admin.catalog.replaceImage") : t("admin.catalog.chooseImage")}</>}
+                        </label>
+                        <p className="mt-2 text-xs text-gray-500">{t("admin.catalog.imageHint")}</p>
+                    </div>
+                </div>
+            </div>
+
+            <label className={labelClass}>
+                {t("admin.catalog.name")}
+                <input type="text" value={form.name} onChange={(e) => update({ name: e.target.value })} maxLength={60} required className={inputClass} />
+            </label>
+
+            <label className={labelClass}>
+                {t("admin.catalog.price")}
+                <input
+                    type="number"
+                    min={0}
+                    step={500}
+                    value={form.price}
+                    onChange={(e) => update({ price: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+                    required
+                    className={inputClass}
+                />
+            </label>
+
+            <label className={labelClass}>
+                {t("admin.catalog.stock")}
+                <input
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={form.stock}
+                    onChange={(e) => update({ stock: e.target.value === "" ? "" : String(Math.max(0, Math.round(Number(e.target.value) || 0))) })}
+                    className={inputClass}
+                />
+                <span className="mt-1 block text-xs font-normal text-gray-500">{t("admin.catalog.stockHint")}</span>
+            </label>
+
+            {kind === 'charms' && (
+                <>
+                    <label className={labelClass}>
+                        {t("admin.catalog.category")}
+                        <select value={form.category} onChange={(e) => update({ category: e.target.value })} className={inputClass}>
+                            {catalog.charmCategories.map((c) => (
+                                <option key={c.id} value={c.id}>{c.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className={labelClass}>
+                        {t("admin.catalog.tags")}
+                        <input type="text" value={form.tags} onChange={(e) => update({ tags: e.target.value })} placeholder={t("admin.catalog.tagsHint")} className={inputClass} />
+                    </label>
+                </>
+            )}
+
+            {kind === 'bases' && !item && (
+                <>
+                    <label className={labelClass}>
+                        {t("admin.catalog.productType")}
+                        <select
+                            value={form.productType}
+                            onChange={(e) => update({ productType: e.target.value, template: productBases(catalog, e.target.value)[0].id })}
+                            className={inputClass}
+                        >
+                            {catalog.productTypes.map((p) => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className={labelClass}>
+                        {t("admin.catalog.template")}
+                        <select value={form.template} onChange={(e) => update({ template: e.target.value })} className={inputClass}>
+                            {productBases(catalog, form.productType).map((b) => (
+                                <option key={b.id} value={b.id}>{b.name}</option>
+                            ))}
+                        </select>
+                        <span className="mt-1 block text-xs font-normal text-gray-500">{t("admin.catalog.templateHint")}</span>
+                    </label>
+                </>
+            )}
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={!form.hidden} onChange={(e) => update({ hidden: !e.target.checked })} className="accent-brand-mint" />
+                {t("admin.catalog.show")}
+            </label>
+
+            {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+            <button
+                type="submit"
+                disabled={isSaving || isUploading || !form.image || !form.name.trim()}
+                className="w-full flex items-center justify-center gap-2 bg-brand-mint hover:bg-brand-mint/90 disabled:opacity-60 text-white font-semibold py-2.5 rounded-xl transition-colors text-sm"
+            >
+                {isSaving && <Loader2 size={16} className="animate-spin" />} {t("admin.catalog.save")}
+            </button>
+        </form>
+    );
+}
@@ -0,0 +1,51 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ChevronLeft } from "lucide-react";
+import AdminHeader from "../../../AdminHeader";
+import CatalogItemForm from "./CatalogItemForm";
+import { requireAdmin } from "../../../../lib/adminAuth";
+import { getBase, getCharm } from "../../../../lib/catalog";
+import { isCatalogKind, NEW_ITEM } from "../../../../lib/catalogEdit";
+import { getCatalog } from "../../../../lib/catalogStore";
+import { getT } from "../../../../lib/serverLocale";
+
+type CatalogItemPageProps = {
+  params: Promise<{ kind: string; id: string }>;
+};
+
+export const metadata: Metadata = {
+  title: "Katalog | Admin",
+  robots: { index: false },
+};
+
+export default async function CatalogItemPage({ params }: CatalogItemPageProps) {
+  await requireAdmin();
+  const { kind, id } = await params;
+  if (!isCatalogKind(kind)) notFound();
+
+  const catalog = await getCatalog();
+  const item = id === NEW_ITEM ? null : kind === 'bases' ? getBase(catalog, id) : getCharm(catalog, id);
+  if (item === undefined) notFound();
+  const t = await getT();
+
+  const title = item
+    ? t("admin.catalog.editItem", { name: item.name })
+    : t(kind === 'bases' ? "admin.catalog.newBase" : "admin.catalog.newCharm");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <Link href="/admin/catalog" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-brand-mint mb-6">
+          <ChevronLeft size={16} /> {t("admin.catalog.back")}
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900">{title}</h1>
+        {item && <p className="mt-1 text-sm text-gray-400 font-mono">{t("admin.catalog.id", { id: item.id })}</p>}
+        <div className="mt-8 bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+          <CatalogItemForm key={item?.id ?? NEW_ITEM} kind={kind} item={item} />
+        </div>
+      </main>
+    </div>
+  );
+}
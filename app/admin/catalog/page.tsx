@@ -0,0 +1,118 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import Link from "next/link";
+import { Plus } from "lucide-react";
+import AdminHeader from "../AdminHeader";
+import { requireAdmin } from "../../lib/adminAuth";
+import { availability, Availability, Base, Charm, productBases, thumbnailSrc } from "../../lib/catalog";
+import { catalogItemHref, CatalogKind, NEW_ITEM } from "../../lib/catalogEdit";
+import { getCatalog } from "../../lib/catalogStore";
+import { formatIDR } from "../../lib/pricing";
+import { getT } from "../../lib/serverLocale";
+
+export const metadata: Metadata = {
+  title: "Katalog | Admin",
+  robots: { index: false },
+};
+
+const AVAILABILITY_STYLES: Record<Availability, string> = {
+  available: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  soldOut: "bg-red-50 text-red-700 border-red-200",
+  hidden: "bg-gray-50 text-gray-500 border-gray-200",
+};
+
+export default async function AdminCatalogPage() {
+  await requireAdmin();
+  const t = await getT();
+  const catalog = await getCatalog();
+  const availabilityLabels: Record<Availability, string> = {
+    available: t("admin.catalog.shown"),
+    soldOut: t("admin.catalog.soldOut"),
+    hidden: t("admin.catalog.hidden"),
+  };
+
+  const sections: { kind: CatalogKind; title: string; add: string; groups: { id: string; name: string; items: (Base | Charm)[] }[] }[] = [
+    {
+      kind: 'bases',
+      title: t("admin.catalog.bases"),
+      add: t("admin.catalog.addBase"),
+      groups: catalog.productTypes.map(p => ({ id: p.id, name: p.name, items: productBases(catalog, p.id) })),
+    },
+    {
+      kind: 'charms',
+      title: t("admin.catalog.charms"),
+      add: t("admin.catalog.addCharm"),
+      groups: catalog.charmCategories.map(c => ({ id: c.id, name: c.name, items: catalog.charms.filter(charm => charm.category === c.id) })),
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10 space-y-10">
+        <h1 className="text-3xl font-bold text-gray-900">{t("admin.catalog")}</h1>
+
+        {sections.map((section) => (
+          <section key={section.kind}>
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-bold text-gray-900">{section.title}</h2>
+              <Link
+                href={catalogItemHref(section.kind, NEW_ITEM)}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-semibold rounded-lg bg-brand-mint hover:bg-brand-mint/90 text-white transition-colors"
+              >
+                <Plus size={16} /> {section.add}
+              </Link>
+            </div>
+            <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-xs uppercase tracking-wider text-gray-500 border-b border-gray-100">
+                  <tr>
+                    <th className="px-4 py-3 font-semibold">{t("admin.catalog.column.item")}</th>
+                    <th className="px-4 py-3 font-semibold text-right">{t("admin.catalog.column.price")}</th>
+                    <th className="px-4 py-3 font-semibold text-right">{t("admin.catalog.column.stock")}</th>
+                    <th className="px-4 py-3 font-semibold">{t("admin.catalog.column.visibility")}</th>
+                    <th className="px-4 py-3"><span className="sr-only">{t("admin.catalog.edit")}</span></th>
+                  </tr>
+                </thead>
+                {section.groups.filter(g => g.items.length > 0).map((group) => (
+                  <tbody key={group.id} className="divide-y divide-gray-50">
+                    <tr className="bg-gray-50/60">
+                      <th colSpan={5} scope="colgroup" className="px-4 py-2 text-left text-xs font-semibold text-gray-500">{group.name}</th>
+                    </tr>
+                    {group.items.map((item) => (
+                      <tr key={item.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-2">
+                          <div className="flex items-center gap-3">
+                            <span className="relative w-12 h-12 flex-shrink-0 rounded-lg border border-gray-100 bg-gray-50 overflow-hidden">
+                              <Image src={thumbnailSrc(item)} alt="" fill sizes="48px" className="object-contain p-1" />
+                            </span>
+                            <span>
+                              <span className="block font-medium text-gray-900">{item.name}</span>
+                              <span className="block text-xs text-gray-400 font-mono">{item.id}</span>
+                            </span>
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-right whitespace-nowrap">{formatIDR(item.price)}</td>
+                        <td className="px-4 py-2 text-right">{item.stock ?? "—"}</td>
+                        <td className="px-4 py-2">
+                          <span className={`inline-block px-2.5 py-0.5 text-xs font-semibold rounded-full border ${AVAILABILITY_STYLES[availability(item)]}`}>
+                            {availabilityLabels[availability(item)]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <Link href={catalogItemHref(section.kind, item.id)} className="font-semibold text-brand-mint hover:text-emerald-600">
+                            {t("admin.catalog.edit")}
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                ))}
+              </table>
+            </div>
+          </section>
+        ))}
+      </main>
+    </div>
+  );
+}
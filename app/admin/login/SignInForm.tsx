@@ -0,0 +1,58 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2 } from "lucide-react";
+import { useT } from "../../components/LocaleProvider";
+
+export default function SignInForm() {
+    const t = useT();
+    const router = useRouter();
+    const [password, setPassword] = useState("");
+    const [error, setError] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/admin/session", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ password }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error || t("admin.signIn.failed"));
+            router.replace("/admin");
+            router.refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t("admin.signIn.failed"));
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={t("admin.signIn.password")}
+                aria-label={t("admin.signIn.password")}
+                autoComplete="current-password"
+                autoFocus
+                required
+                className="w-full px-4 py-2.5 text-sm rounded-xl border border-gray-200 focus:border-brand-mint focus:outline-none"
+            />
+            {error && <p role="alert" className="text-xs text-red-600">{error}</p>}
+            <button
+                type="submit"
+                disabled={isSubmitting || !password}
+                className="w-full flex items-center justify-center gap-2 bg-brand-mint hover:bg-brand-mint/90 disabled:opacity-60 text-white font-semibold py-2.5 rounded-xl transition-colors text-sm"
+            >
+                {isSubmitting && <Loader2 size={16} className="animate-spin" />} {t("admin.signIn.submit")}
+            </button>
+        </form>
+    );
+}
@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import { redirect } from "next/navigation";
+import SignInForm from "./SignInForm";
+import { isAdmin, isAdminConfigured } from "../../lib/adminAuth";
+import { getT } from "../../lib/serverLocale";
+
+export const metadata: Metadata = {
+  title: "Admin | Ongoing Project",
+  robots: { index: false },
+};
+
+export default async function AdminSignInPage() {
+  if (await isAdmin()) redirect("/admin");
+  const t = await getT();
+
+  return (
+    <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="w-full max-w-sm bg-white rounded-2xl p-8 shadow-sm border border-gray-100">
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">{t("admin.signIn.title")}</h1>
+        {isAdminConfigured() ? (
+          <SignInForm />
+        ) : (
+          <p role="alert" className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">{t("admin.signIn.notConfigured")}</p>
+        )}
+      </div>
+    </main>
+  );
+}
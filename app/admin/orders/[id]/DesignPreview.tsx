@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import { Loader2 } from "lucide-react";
+import { loadDesign, placementLabel, renderPrint, toPhysical } from "../../../lib/printExport";
+import { decodeDesign } from "../../../lib/share";
+import { useCatalog } from "../../../components/CatalogProvider";
+import { useT } from "../../../components/LocaleProvider";
+
+type Part = { label: string; xMm: number; yMm: number; widthMm: number; rotation: number };
+
+// Preview resolution; the customizer's exports are there for print files
+const PREVIEW_DPI = 150;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement | null>(resolve => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(null);
+    img.src = src;
+});
+
+const mm = (value: number) => value.toFixed(1);
+
+// An order's design as it will be printed, with its part list resolved from
+// the catalog (positions in mm from the base's top-left corner, as on the
+// production sheet).
+export default function DesignPreview({ encoded }: { encoded: string }) {
+    const t = useT();
+    const catalog = useCatalog();
+    const [result, setResult] = useState<{ image: string; baseName: string; parts: Part[] } | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        const design = decodeDesign(encoded, catalog);
+        if (!design) return;
+        let cancelled = false;
+
+        const render = async () => {
+            try {
+                const { base, baseAspect, layout, placements } = await loadDesign(design, catalog, loadImage);
+                const print = await renderPrint(design, catalog, loadImage, { dpi: PREVIEW_DPI, transparent: false });
+                if (cancelled) return;
+                setResult({
+                    image: print.toDataURL("image/png"),
+                    baseName: base.name,
+                    parts: toPhysical(placements, base, baseAspect, layout).map(p => ({
+                        label: placementLabel(p, catalog, t),
+                        xMm: p.xMm,
+                        yMm: p.yMm,
+                        widthMm: p.widthMm,
+                        rotation: p.rotation,
+                    })),
+                });
+            } catch (err) {
+                console.error("Failed to render order design", err);
+                if (!cancelled) setFailed(true);
+            }
+        };
+        render();
+        return () => { cancelled = true; };
+    }, [encoded, catalog, t]);
+
+    if (failed) return <p role="alert" className="text-sm text-red-600">{t("admin.order.renderFailed")}</p>;
+    if (!result) {
+        return (
+            <div className="flex items-center justify-center gap-2 h-64 text-sm text-gray-400">
+                <Loader2 size={16} className="animate-spin" /> {t("admin.order.rendering")}
+            </div>
+        );
+    }
+
+    return (
+        <div className="grid sm:grid-cols-2 gap-6">
+            <div className="relative aspect-[3/4] bg-gray-50 rounded-xl border border-gray-100 overflow-hidden">
+                <Image src={result.image} alt={t("admin.order.design")} fill unoptimized className="object-contain p-4" />
+            </div>
+            <div>
+                <h3 className="text-xs font-semibold text-gray-500 mb-3 uppercase tracking-wider">{t("admin.order.parts")}</h3>
+                <p className="text-sm font-medium text-gray-900 mb-3">{t("admin.order.base", { name: result.baseName })}</p>
+                <ol className="space-y-3 text-sm list-decimal list-inside">
+                    {result.parts.map((part, i) => (
+                        <li key={i} className="text-gray-900">
+                            {part.label}
+                            <div className="pl-5 text-xs text-gray-500">
+                                {t("admin.order.partPosition", { x: mm(part.xMm), y: mm(part.yMm), width: mm(part.widthMm), rotation: part.rotation })}
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        </div>
+    );
+}
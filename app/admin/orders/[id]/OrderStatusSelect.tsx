@@ -0,0 +1,56 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ORDER_STATUS_LABELS, ORDER_STATUSES, OrderStatus } from "../../../lib/orders";
+import { useT } from "../../../components/LocaleProvider";
+
+// Moves an order along new -> confirmed -> in production -> shipped.
+export default function OrderStatusSelect({ orderId, status }: { orderId: string, status: OrderStatus }) {
+    const t = useT();
+    const router = useRouter();
+    const [current, setCurrent] = useState(status);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const save = async (next: OrderStatus) => {
+        const previous = current;
+        setCurrent(next);
+        setIsSaving(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/admin/orders/${orderId}`, {
+                method: "PATCH",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ status: next }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) throw new Error(data.error || t("admin.order.statusFailed"));
+            router.refresh();
+        } catch (err) {
+            setCurrent(previous);
+            setError(err instanceof Error ? err.message : t("admin.order.statusFailed"));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div>
+            <label className="flex items-center gap-3 text-sm font-semibold text-gray-700">
+                {t("admin.order.status")}
+                <select
+                    value={current}
+                    onChange={(e) => save(e.target.value as OrderStatus)}
+                    disabled={isSaving}
+                    className="px-3 py-2 rounded-lg border border-gray-200 bg-white font-normal focus:border-brand-mint focus:outline-none disabled:opacity-60"
+                >
+                    {ORDER_STATUSES.map((s) => (
+                        <option key={s} value={s}>{t(ORDER_STATUS_LABELS[s])}</option>
+                    ))}
+                </select>
+            </label>
+            {error && <p role="alert" className="mt-1 text-xs text-red-600">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,141 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ChevronLeft, ExternalLink } from "lucide-react";
+import AdminHeader from "../../AdminHeader";
+import DesignPreview from "./DesignPreview";
+import OrderStatusSelect from "./OrderStatusSelect";
+import { requireAdmin } from "../../../lib/adminAuth";
+import { getCatalog } from "../../../lib/catalogStore";
+import { INTL_LOCALES } from "../../../lib/i18n";
+import { getOrder } from "../../../lib/orderStore";
+import { formatIDR } from "../../../lib/pricing";
+import { getLocale, getT } from "../../../lib/serverLocale";
+import { buildShareUrl, decodeDesign, VIEW_PARAM } from "../../../lib/share";
+
+type AdminOrderPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export async function generateMetadata({ params }: AdminOrderPageProps): Promise<Metadata> {
+  const { id } = await params;
+  return { title: `${id} | Admin`, robots: { index: false } };
+}
+
+export default async function AdminOrderPage({ params }: AdminOrderPageProps) {
+  await requireAdmin();
+  const { id } = await params;
+  const order = await getOrder(id);
+  if (!order) notFound();
+
+  const t = await getT();
+  const dateFormat = new Intl.DateTimeFormat(INTL_LOCALES[await getLocale()], { dateStyle: "long", timeStyle: "short" });
+  const catalog = await getCatalog();
+  const { quote } = order;
+  const items = order.items.map(item => ({ ...item, decoded: decodeDesign(item.design, catalog) }));
+  const addOns = (order.addOns ?? []).map(addOnId => catalog.pricing.addOns.find(a => a.id === addOnId)?.name ?? addOnId);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <Link href="/admin" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-brand-mint mb-6">
+          <ChevronLeft size={16} /> {t("admin.back")}
+        </Link>
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900 font-mono">{t("admin.order.title", { id: order.id })}</h1>
+            <p className="mt-1 text-gray-500">{t("admin.order.placed", { date: dateFormat.format(new Date(order.createdAt)) })}</p>
+          </div>
+          <OrderStatusSelect orderId={order.id} status={order.status} />
+        </div>
+
+        <div className="grid lg:grid-cols-12 gap-8 items-start">
+          <div className="lg:col-span-7 space-y-8">
+            {items.map((item, i) => (
+              <section key={i} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+                <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                  <h2 className="text-xl font-bold text-gray-900">
+                    {items.length > 1 ? t("admin.order.item", { number: i + 1 }) : t("admin.order.design")}
+                    <span className="ml-2 text-base font-semibold text-gray-500">{t("admin.order.pieces", { count: item.quantity })}</span>
+                  </h2>
+                  {item.decoded && (
+                    <Link
+                      href={`${buildShareUrl(item.decoded, catalog, "", item.design)}&${VIEW_PARAM}=1`}
+                      target="_blank"
+                      className="inline-flex items-center gap-1.5 text-sm font-semibold text-brand-mint hover:text-emerald-600"
+                    >
+                      {t("admin.order.openCustomizer")} <ExternalLink size={14} />
+                    </Link>
+                  )}
+                </div>
+                {item.decoded ? (
+                  <DesignPreview encoded={item.design} />
+                ) : (
+                  <p role="alert" className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3">{t("admin.order.invalidDesign")}</p>
+                )}
+              </section>
+            ))}
+          </div>
+
+          <div className="lg:col-span-5 space-y-8">
+            <section className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">{t("admin.order.customer")}</h2>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+                <dt className="text-gray-500">{t("admin.order.name")}</dt>
+                <dd className="font-medium text-gray-900">{order.customer.name}</dd>
+                <dt className="text-gray-500">{t("admin.order.contact")}</dt>
+                <dd className="font-medium text-gray-900 break-all">{order.customer.contact}</dd>
+                <dt className="text-gray-500">{t("admin.order.quantity")}</dt>
+                <dd className="font-medium text-gray-900">{order.quantity}</dd>
+                {addOns.length > 0 && (
+                  <>
+                    <dt className="text-gray-500">{t("admin.order.addOns")}</dt>
+                    <dd className="font-medium text-gray-900">{addOns.join(", ")}</dd>
+                  </>
+                )}
+              </dl>
+            </section>
+
+            <section className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">{t("admin.order.price")}</h2>
+              {quote ? (
+                <div className="text-sm space-y-2">
+                  {quote.items.map((item, i) => (
+                    <div key={i} className="space-y-2 pb-2 border-b border-gray-100">
+                      {quote.items.length > 1 && (
+                        <div className="font-semibold text-gray-900">{t("admin.order.item", { number: i + 1 })}{item.label && ` · ${item.label}`}</div>
+                      )}
+                      {item.lines.map((line, j) => (
+                        <div key={j} className="flex justify-between gap-4 text-gray-600">
+                          <span>{line.label}{line.count > 1 ? ` ×${line.count}` : ""}</span>
+                          <span>{formatIDR(line.unitPrice * line.count)}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between gap-4 text-gray-900">
+                        <span>{item.quantity} × {formatIDR(item.unitPrice)}</span>
+                        <span>{formatIDR(item.subtotal)}</span>
+                      </div>
+                    </div>
+                  ))}
+                  {quote.discount > 0 && (
+                    <div className="flex justify-between gap-4 text-brand-mint">
+                      <span>{t("price.discount", { percent: quote.discountPercent })}</span>
+                      <span>-{formatIDR(quote.discount)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between gap-4 pt-2 font-bold text-gray-900">
+                    <span>{t("price.total")} ({quote.quantity} pcs)</span>
+                    <span>{formatIDR(quote.total)}</span>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">{t("admin.order.noQuote")}</p>
+              )}
+            </section>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
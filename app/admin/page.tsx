@@ -0,0 +1,122 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import AdminHeader from "./AdminHeader";
+import { requireAdmin } from "../lib/adminAuth";
+import { getBase } from "../lib/catalog";
+import { getCatalog } from "../lib/catalogStore";
+import { designProductType } from "../lib/design";
+import { INTL_LOCALES } from "../lib/i18n";
+import { isOrderStatus, ORDER_STATUS_LABELS, ORDER_STATUSES, OrderStatus } from "../lib/orders";
+import { listOrders } from "../lib/orderStore";
+import { formatIDR } from "../lib/pricing";
+import { getLocale, getT } from "../lib/serverLocale";
+import { decodeDesign } from "../lib/share";
+
+export const metadata: Metadata = {
+  title: "Admin | Ongoing Project",
+  robots: { index: false },
+};
+
+const STATUS_STYLES: Record<OrderStatus, string> = {
+  new: "bg-sky-50 text-sky-700 border-sky-200",
+  confirmed: "bg-amber-50 text-amber-700 border-amber-200",
+  in_production: "bg-violet-50 text-violet-700 border-violet-200",
+  shipped: "bg-emerald-50 text-emerald-700 border-emerald-200",
+};
+
+export default async function AdminOrdersPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  await requireAdmin();
+  const t = await getT();
+  const dateFormat = new Intl.DateTimeFormat(INTL_LOCALES[await getLocale()], { dateStyle: "medium", timeStyle: "short" });
+
+  const { status } = await searchParams;
+  const filter = isOrderStatus(status) ? status : null;
+  const orders = await listOrders();
+  const catalog = await getCatalog();
+  const shown = filter ? orders.filter(o => o.status === filter) : orders;
+
+  const filters = [
+    { href: "/admin", label: t("admin.filter.all"), count: orders.length, active: !filter },
+    ...ORDER_STATUSES.map(s => ({
+      href: `/admin?status=${s}`,
+      label: t(ORDER_STATUS_LABELS[s]),
+      count: orders.filter(o => o.status === s).length,
+      active: filter === s,
+    })),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6">{t("admin.orders")}</h1>
+
+        <nav aria-label={t("admin.filter")} className="flex flex-wrap gap-2 mb-6">
+          {filters.map((f) => (
+            <Link
+              key={f.href}
+              href={f.href}
+              aria-current={f.active ? "page" : undefined}
+              className={`px-3 py-1.5 text-sm font-semibold rounded-full border transition-colors ${f.active ? 'bg-brand-mint border-brand-mint text-white' : 'bg-white border-gray-200 text-gray-600 hover:border-brand-mint/50'}`}
+            >
+              {f.label} <span className="opacity-70">({f.count})</span>
+            </Link>
+          ))}
+        </nav>
+
+        {shown.length === 0 ? (
+          <p className="text-gray-500 bg-white rounded-2xl border border-gray-100 p-10 text-center">{t("admin.empty")}</p>
+        ) : (
+          <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs uppercase tracking-wider text-gray-500 border-b border-gray-100">
+                <tr>
+                  <th className="px-4 py-3 font-semibold">{t("admin.column.order")}</th>
+                  <th className="px-4 py-3 font-semibold">{t("admin.column.date")}</th>
+                  <th className="px-4 py-3 font-semibold">{t("admin.column.customer")}</th>
+                  <th className="px-4 py-3 font-semibold">{t("admin.column.product")}</th>
+                  <th className="px-4 py-3 font-semibold text-right">{t("admin.column.quantity")}</th>
+                  <th className="px-4 py-3 font-semibold text-right">{t("admin.column.total")}</th>
+                  <th className="px-4 py-3 font-semibold">{t("admin.column.status")}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {shown.map((order) => {
+                  const design = decodeDesign(order.items[0].design, catalog);
+                  const base = design ? getBase(catalog, design.baseId) : undefined;
+                  return (
+                    <tr key={order.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 font-mono font-semibold">
+                        <Link href={`/admin/orders/${order.id}`} className="text-brand-mint hover:text-emerald-600">{order.id}</Link>
+                      </td>
+                      <td className="px-4 py-3 text-gray-600 whitespace-nowrap">{dateFormat.format(new Date(order.createdAt))}</td>
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900">{order.customer.name}</div>
+                        <div className="text-gray-500">{order.customer.contact}</div>
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {design && base ? `${designProductType(design, catalog).name} · ${base.name}` : "—"}
+                        {order.items.length > 1 && <div className="text-xs text-gray-400">{t("admin.order.moreItems", { count: order.items.length - 1 })}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-right">{order.quantity}</td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">{order.quote ? formatIDR(order.quote.total) : "—"}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-block px-2.5 py-0.5 text-xs font-semibold rounded-full border ${STATUS_STYLES[order.status]}`}>
+                          {t(ORDER_STATUS_LABELS[order.status])}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { isAdmin } from "../../../lib/adminAuth";
+import { MAX_ASSET_BYTES } from "../../../lib/catalogEdit";
+import { saveAsset, validateAsset } from "../../../lib/catalogStore";
+import { getT } from "../../../lib/serverLocale";
+
+// Admin: store a base or charm image (or its thumbnail)
+export async function POST(request: Request) {
+  const t = await getT();
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: t("api.signInRequired") }, { status: 401 });
+  }
+  if (Number(request.headers.get("content-length") ?? 0) > MAX_ASSET_BYTES) {
+    return NextResponse.json({ error: t("api.image.tooLarge", { max: MAX_ASSET_BYTES / (1024 * 1024) }) }, { status: 413 });
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = Buffer.from(await request.arrayBuffer());
+  } catch {
+    return NextResponse.json({ error: t("api.image.invalid") }, { status: 400 });
+  }
+  if (bytes.length > MAX_ASSET_BYTES) {
+    return NextResponse.json({ error: t("api.image.tooLarge", { max: MAX_ASSET_BYTES / (1024 * 1024) }) }, { status: 413 });
+  }
+
+  const error = validateAsset(bytes, t);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    const src = await saveAsset(bytes);
+    return NextResponse.json({ src }, { status: 201 });
+  } catch (err) {
+    console.error("Failed to store catalog asset", err);
+    return NextResponse.json({ error: t("api.image.saveFailed") }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { isAdmin } from "../../../../../lib/adminAuth";
+import { applyCatalogEdit, isCatalogKind } from "../../../../../lib/catalogEdit";
+import { editCatalog } from "../../../../../lib/catalogStore";
+import { getT } from "../../../../../lib/serverLocale";
+
+// Admin: change a base or charm
+export async function PATCH(request: Request, { params }: { params: Promise<{ kind: string; id: string }> }) {
+  const t = await getT();
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: t("api.signInRequired") }, { status: 401 });
+  }
+
+  const { kind, id } = await params;
+  if (!isCatalogKind(kind)) {
+    return NextResponse.json({ error: t("api.notFound") }, { status: 404 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: t("api.invalidData") }, { status: 400 });
+  }
+
+  try {
+    const result = await editCatalog(catalog => applyCatalogEdit(catalog, kind, id, body, t), t);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json({ id: result.id });
+  } catch (err) {
+    console.error("Failed to save catalog", err);
+    return NextResponse.json({ error: t("api.catalog.saveFailed") }, { status: 500 });
+  }
+}
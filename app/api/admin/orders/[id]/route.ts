@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { isAdmin } from "../../../../lib/adminAuth";
+import { isOrderStatus } from "../../../../lib/orders";
+import { updateOrderStatus } from "../../../../lib/orderStore";
+import { getT } from "../../../../lib/serverLocale";
+
+// Admin: change an order's status
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const t = await getT();
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: t("api.signInRequired") }, { status: 401 });
+  }
+
+  let status: unknown;
+  try {
+    ({ status } = await request.json());
+  } catch {
+    return NextResponse.json({ error: t("api.invalidData") }, { status: 400 });
+  }
+  if (!isOrderStatus(status)) {
+    return NextResponse.json({ error: t("api.order.status") }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const order = await updateOrderStatus(id, status);
+  if (!order) {
+    return NextResponse.json({ error: t("api.order.notFound") }, { status: 404 });
+  }
+  return NextResponse.json({ id: order.id, status: order.status });
+}
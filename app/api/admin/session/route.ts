@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { ADMIN_COOKIE, allowSignIn, checkPassword, createSessionToken, isAdminConfigured, SESSION_MAX_AGE } from "../../../lib/adminAuth";
+import { clientAddress } from "../../../lib/rateLimit";
+import { getT } from "../../../lib/serverLocale";
+
+// Sign in: exchange the admin password for a session cookie
+export async function POST(request: Request) {
+  const t = await getT();
+  if (!isAdminConfigured()) {
+    return NextResponse.json({ error: t("api.adminDisabled") }, { status: 503 });
+  }
+  if (!allowSignIn(clientAddress(request))) {
+    return NextResponse.json({ error: t("api.tooManyAttempts") }, { status: 429 });
+  }
+
+  let password: unknown;
+  try {
+    ({ password } = await request.json());
+  } catch {
+    return NextResponse.json({ error: t("api.invalidData") }, { status: 400 });
+  }
+  if (typeof password !== "string" || !checkPassword(password)) {
+    return NextResponse.json({ error: t("api.wrongPassword") }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.set(ADMIN_COOKIE, createSessionToken(), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+  return response;
+}
+
+// Sign out
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(ADMIN_COOKIE);
+  return response;
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { readAsset } from "../../../lib/catalogStore";
+import { getT } from "../../../lib/serverLocale";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const t = await getT();
+  const { id } = await params;
+  const bytes = await readAsset(id);
+  if (!bytes) {
+    return NextResponse.json({ error: t("api.image.notFound") }, { status: 404 });
+  }
+
+  // Assets are named by their content, so they never change
+  return new NextResponse(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": "image/png",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
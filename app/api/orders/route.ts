@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { editStock, getCatalog } from "../../lib/catalogStore";
+import { validateOrderRequest } from "../../lib/orders";
+import { createOrder } from "../../lib/orderStore";
+import { designUploadIds, quoteOrder } from "../../lib/pricing";
+import { getT } from "../../lib/serverLocale";
+import { buildShareUrl } from "../../lib/share";
+import { reserveStock, stockIssueMessage, takeStock } from "../../lib/stock";
+import { uploadExists } from "../../lib/uploadStore";
+
+export async function POST(request: Request) {
+  const t = await getT();
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: t("api.order.invalid") }, { status: 400 });
+  }
+
+  const catalog = await getCatalog();
+  const result = validateOrderRequest(body, catalog, t);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: 400 });
+  }
+
+  const { items, customer, addOns, decoded } = result.order;
+  // Share links only carry upload IDs; the images themselves must be on the server
+  const uploads = await Promise.all(decoded.flatMap(({ design }) => designUploadIds(design)).map(uploadExists));
+  if (uploads.includes(false)) {
+    return NextResponse.json({ error: t("api.order.uploadMissing") }, { status: 400 });
+  }
+
+  // Priced server-side so the stored total never depends on the client
+  const quote = quoteOrder(decoded, addOns, catalog);
+
+  // Checked again under the store's lock, so two orders can't share the last pieces
+  let reserved: ReturnType<typeof reserveStock>;
+  try {
+    reserved = await editStock(current => reserveStock(current, decoded));
+  } catch (err) {
+    console.error("Failed to update stock", err);
+    return NextResponse.json({ error: t("api.order.saveFailed") }, { status: 500 });
+  }
+  if (!reserved.ok) {
+    return NextResponse.json({ error: stockIssueMessage(reserved.issue, t) }, { status: 409 });
+  }
+
+  try {
+    const order = await createOrder({ items, customer, addOns }, quote);
+    const origin = new URL(request.url).origin;
+    const designUrls = decoded.map(({ design }, i) => buildShareUrl(design, catalog, origin, items[i].design));
+    return NextResponse.json({ id: order.id, designUrls, total: quote.total }, { status: 201 });
+  } catch (err) {
+    console.error("Failed to store order", err);
+    // Put the pieces back
+    await editStock(current => ({ ok: true as const, catalog: takeStock(current, decoded, -1) })).catch(() => { });
+    return NextResponse.json({ error: t("api.order.saveFailed") }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getT } from "../../../lib/serverLocale";
+import { readUpload, uploadExists } from "../../../lib/uploadStore";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const t = await getT();
+  const { id } = await params;
+  const bytes = await readUpload(id);
+  if (!bytes) {
+    return NextResponse.json({ error: t("api.image.notFound") }, { status: 404 });
+  }
+
+  // Uploads are named by their content, so they never change
+  return new NextResponse(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": "image/png",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
+
+// Lets the customizer check that a design's uploads are still stored
+export async function HEAD(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return new NextResponse(null, { status: (await uploadExists(id)) ? 200 : 404 });
+}
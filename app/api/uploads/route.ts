@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { listOrders } from "../../lib/orderStore";
+import { clientAddress } from "../../lib/rateLimit";
+import { getT } from "../../lib/serverLocale";
+import { sharedUploadIds } from "../../lib/share";
+import { MAX_UPLOAD_BYTES } from "../../lib/upload";
+import { allowUpload, hasUploadRoom, pruneUploads, saveUpload, validatePng } from "../../lib/uploadStore";
+
+// Uploads the stored orders' designs use, which pruning must keep
+const usedUploadIds = async () =>
+  new Set((await listOrders()).flatMap(order => order.items.flatMap(item => sharedUploadIds(item.design))));
+
+export async function POST(request: Request) {
+  const t = await getT();
+  if (!allowUpload(clientAddress(request))) {
+    return NextResponse.json({ error: t("api.upload.rateLimited") }, { status: 429 });
+  }
+
+  if (Number(request.headers.get("content-length") ?? 0) > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: t("api.image.tooLarge", { max: MAX_UPLOAD_BYTES / (1024 * 1024) }) }, { status: 413 });
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = Buffer.from(await request.arrayBuffer());
+  } catch {
+    return NextResponse.json({ error: t("api.image.invalid") }, { status: 400 });
+  }
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ error: t("api.image.tooLarge", { max: MAX_UPLOAD_BYTES / (1024 * 1024) }) }, { status: 413 });
+  }
+
+  const error = validatePng(bytes, t);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    await pruneUploads(usedUploadIds).catch(err => console.error("Failed to prune uploads", err));
+    if (!(await hasUploadRoom(bytes.length))) {
+      return NextResponse.json({ error: t("api.upload.storageFull") }, { status: 507 });
+    }
+    const id = await saveUpload(bytes);
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (err) {
+    console.error("Failed to store upload", err);
+    return NextResponse.json({ error: t("api.image.saveFailed") }, { status: 500 });
+  }
+}
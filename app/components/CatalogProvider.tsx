@@ -0,0 +1,13 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { Catalog, defaultCatalog } from "../lib/catalog";
+
+const CatalogContext = createContext<Catalog>(defaultCatalog);
+
+// Hands the live catalog (read on the server in the root layout, see catalogStore.ts) to client components.
+export default function CatalogProvider({ catalog, children }: { catalog: Catalog, children: React.ReactNode }) {
+    return <CatalogContext.Provider value={catalog}>{children}</CatalogContext.Provider>;
+}
+
+export const useCatalog = () => useContext(CatalogContext);
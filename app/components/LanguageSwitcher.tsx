@@ -0,0 +1,41 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { Locale, LOCALE_COOKIE, LOCALES } from "../lib/i18n";
+import { useLocale, useT } from "./LocaleProvider";
+
+const ONE_YEAR = 60 * 60 * 24 * 365;
+
+const saveLocale = (locale: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${ONE_YEAR}; samesite=lax`;
+};
+
+export default function LanguageSwitcher({ className = "" }: { className?: string }) {
+    const locale = useLocale();
+    const t = useT();
+    const router = useRouter();
+
+    // The cookie is read on the server, so re-render the page with it
+    const switchTo = (next: Locale) => {
+        if (next === locale) return;
+        saveLocale(next);
+        router.refresh();
+    };
+
+    return (
+        <div role="group" aria-label={t("nav.language")} className={`flex items-center bg-gray-100 rounded-full p-0.5 ${className}`}>
+            {LOCALES.map((value) => (
+                <button
+                    key={value}
+                    type="button"
+                    onClick={() => switchTo(value)}
+                    aria-pressed={value === locale}
+                    lang={value}
+                    className={`px-2.5 py-1 text-xs font-semibold rounded-full uppercase transition-colors ${value === locale ? 'bg-white text-brand-mint shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+                >
+                    {value}
+                </button>
+            ))}
+        </div>
+    );
+}
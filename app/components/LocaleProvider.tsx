@@ -0,0 +1,19 @@
+"use client";
+
+import { createContext, useContext, useMemo } from "react";
+import { createTranslator, DEFAULT_LOCALE, Locale } from "../lib/i18n";
+
+const LocaleContext = createContext<Locale>(DEFAULT_LOCALE);
+
+// Hands the request's locale (resolved on the server in the root layout) to client components.
+export default function LocaleProvider({ locale, children }: { locale: Locale, children: React.ReactNode }) {
+    return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
+
+export const useLocale = () => useContext(LocaleContext);
+
+/** Translator for client components. */
+export function useT() {
+    const locale = useLocale();
+    return useMemo(() => createTranslator(locale), [locale]);
+}
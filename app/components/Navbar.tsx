@@ -6,12 +6,17 @@ import Image from "next/image";
 import { usePathname } from "next/navigation";
 import { Menu, X } from "lucide-react";
 import { useState } from "react";
+import LanguageSwitcher from "./LanguageSwitcher";
+import { useT } from "./LocaleProvider";
 
 export default function Navbar() {
     const [isOpen, setIsOpen] = useState(false);
     const pathname = usePathname();
+    const t = useT();
 
     const isActive = (path: string) => pathname === path;
+    // Every product type's customizer lives under /customizer/<id>
+    const inCustomizer = pathname.startsWith("/customizer");
 
     // Helper for link classes
     const linkClass = (path: string) => `
@@ -38,30 +43,34 @@ export default function Navbar() {
 
                     {/* Desktop Menu */}
                     <div className="hidden md:flex items-center space-x-8">
-                        <Link href="/" className={linkClass("/")}>Home</Link>
-                        {pathname !== "/customizer" && (
-                            <Link href="/customizer" className={linkClass("/customizer")}>Customize Keychain</Link>
+                        <Link href="/" className={linkClass("/")}>{t("nav.home")}</Link>
+                        {!inCustomizer && (
+                            <Link href="/customizer" className={linkClass("/customizer")}>{t("nav.customize")}</Link>
                         )}
-                        {pathname !== "/customizer" && (
+                        {!inCustomizer && (
                             <>
-                                <Link href="#products" className="text-gray-600 hover:text-brand-mint font-medium transition-colors">Products</Link>
-                                <Link href="#contact" className="text-gray-600 hover:text-brand-mint font-medium transition-colors">Contact</Link>
+                                <Link href="/#products" className="text-gray-600 hover:text-brand-mint font-medium transition-colors">{t("nav.products")}</Link>
+                                <Link href="#contact" className="text-gray-600 hover:text-brand-mint font-medium transition-colors">{t("nav.contact")}</Link>
                             </>
                         )}
-                        {pathname !== "/customizer" && (
+                        {!inCustomizer && (
                             <Link
                                 href="/customizer"
                                 className="px-6 py-2.5 bg-brand-mint text-white font-semibold rounded-full hover:bg-emerald-500 transition-all shadow-md hover:shadow-lg transform hover:-translate-y-0.5"
                             >
-                                Mulai Custom
+                                {t("nav.start")}
                             </Link>
                         )}
+                        <LanguageSwitcher />
                     </div>
 
                     {/* Mobile Menu Button */}
-                    <div className="md:hidden flex items-center">
+                    <div className="md:hidden flex items-center gap-2">
+                        <LanguageSwitcher />
                         <button
                             onClick={() => setIsOpen(!isOpen)}
+                            aria-label={t("nav.toggleMenu")}
+                            aria-expanded={isOpen}
                             className="text-gray-600 hover:text-brand-mint p-2"
                         >
                             {isOpen ? <X size={24} /> : <Menu size={24} />}
@@ -79,43 +88,43 @@ export default function Navbar() {
                             className={mobileLinkClass("/")}
                             onClick={() => setIsOpen(false)}
                         >
-                            Home
+                            {t("nav.home")}
                         </Link>
-                        {pathname !== "/customizer" && (
+                        {!inCustomizer && (
                             <Link
                                 href="/customizer"
                                 className={mobileLinkClass("/customizer")}
                                 onClick={() => setIsOpen(false)}
                             >
-                                Customize Keychain
+                                {t("nav.customize")}
                             </Link>
                         )}
-                        {pathname !== "/customizer" && (
+                        {!inCustomizer && (
                             <>
                                 <Link
-                                    href="#products"
+                                    href="/#products"
                                     className={mobileLinkClass("#products")} // Logic slightly imperfect for hash links but OK
                                     onClick={() => setIsOpen(false)}
                                 >
-                                    Products
+                                    {t("nav.products")}
                                 </Link>
                                 <Link
                                     href="#contact"
                                     className={mobileLinkClass("#contact")}
                                     onClick={() => setIsOpen(false)}
                                 >
-                                    Contact
+                                    {t("nav.contact")}
                                 </Link>
                             </>
                         )}
-                        {pathname !== "/customizer" && (
+                        {!inCustomizer && (
                             <div className="pt-4">
                                 <Link
                                     href="/customizer"
                                     className="block w-full text-center px-6 py-3 bg-brand-mint text-white font-semibold rounded-lg hover:bg-emerald-500 transition-colors shadow-sm"
                                     onClick={() => setIsOpen(false)}
                                 >
-                                    Mulai Custom
+                                    {t("nav.start")}
                                 </Link>
                             </div>
                         )}
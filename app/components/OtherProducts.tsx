@@ -2,11 +2,17 @@
 "use client";
 
 import Image from "next/image";
-import { ASSETS } from "../lib/constants";
+import Link from "next/link";
+import { formatIDR } from "../lib/pricing";
+import { productHref } from "../lib/products";
 import { useRef } from "react";
 import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useCatalog } from "./CatalogProvider";
+import { useT } from "./LocaleProvider";
 
 export default function OtherProducts() {
+    const t = useT();
+    const catalog = useCatalog();
     const scrollRef = useRef<HTMLDivElement>(null);
 
     const scroll = (direction: 'left' | 'right') => {
@@ -25,12 +31,12 @@ export default function OtherProducts() {
         <section id="products" className="py-20 bg-white overflow-hidden">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
                 <div className="flex justify-between items-center mb-12">
-                    <h2 className="text-3xl font-bold text-gray-900">Other Products</h2>
+                    <h2 className="text-3xl font-bold text-gray-900">{t("other.title")}</h2>
                     <div className="flex gap-2">
-                        <button onClick={() => scroll('left')} className="p-2 rounded-full border border-gray-200 hover:bg-gray-50 text-gray-600">
+                        <button onClick={() => scroll('left')} aria-label={t("other.previous")} className="p-2 rounded-full border border-gray-200 hover:bg-gray-50 text-gray-600">
                             <ChevronLeft size={20} />
                         </button>
-                        <button onClick={() => scroll('right')} className="p-2 rounded-full border border-gray-200 hover:bg-gray-50 text-gray-600">
+                        <button onClick={() => scroll('right')} aria-label={t("other.next")} className="p-2 rounded-full border border-gray-200 hover:bg-gray-50 text-gray-600">
                             <ChevronRight size={20} />
                         </button>
                     </div>
@@ -41,14 +47,15 @@ export default function OtherProducts() {
                     className="flex gap-6 overflow-x-auto pb-8 snap-x snap-mandatory scrollbar-hide"
                     style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
                 >
-                    {ASSETS.otherProducts.map((product, idx) => (
-                        <div
-                            key={idx}
+                    {catalog.otherProducts.map((product) => (
+                        <Link
+                            key={product.id}
+                            href={productHref(product.id)}
                             className="min-w-[280px] md:min-w-[320px] snap-start bg-white rounded-2xl border border-gray-100 shadow-sm hover:shadow-md transition-shadow"
                         >
                             <div className="relative aspect-[4/5] w-full overflow-hidden rounded-t-2xl bg-gray-50">
                                 <Image
-                                    src={product.src}
+                                    src={product.images[0]}
                                     alt={product.name}
                                     fill
                                     className="object-cover hover:scale-105 transition-transform duration-500"
@@ -56,9 +63,10 @@ export default function OtherProducts() {
                             </div>
                             <div className="p-4">
                                 <h3 className="font-bold text-gray-900">{product.name}</h3>
-                                <p className="text-sm text-gray-500">Official Merchandise</p>
+                                <p className="text-sm text-gray-500">{t("other.tagline")}</p>
+                                <p className="text-sm font-semibold text-brand-mint mt-1">{formatIDR(product.price)}</p>
                             </div>
-                        </div>
+                        </Link>
                     ))}
                 </div>
             </div>
@@ -1,22 +1,22 @@
 
-import Image from "next/image";
-import { ASSETS } from "../lib/constants";
+import { getT } from "../lib/serverLocale";
 
-export default function WhyUs() {
+export default async function WhyUs() {
+    const t = await getT();
     const features = [
         {
-            title: "Real-time Preview",
-            desc: "Lihat hasil desainmu seketika. Geser, pilih, dan sesuaikan sesuka hati sebelum memesan.",
+            title: t("why.preview.title"),
+            desc: t("why.preview.desc"),
             icon: "🎨"
         },
         {
-            title: "Premium Quality",
-            desc: "Dibuat dengan bahan akrilik berkualitas tinggi dan print tajam yang tahan lama.",
+            title: t("why.quality.title"),
+            desc: t("why.quality.desc"),
             icon: "✨"
         },
         {
-            title: "Unik & Personal",
-            desc: "Kombinasi tak terbatas. Buat keychain yang benar-benar mewakili kepribadianmu.",
+            title: t("why.personal.title"),
+            desc: t("why.personal.desc"),
             icon: "🦄"
         }
     ];
@@ -25,8 +25,8 @@ export default function WhyUs() {
         <section className="py-20 bg-white">
             <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
                 <div className="text-center mb-16">
-                    <h2 className="text-3xl font-bold text-gray-900 mb-4">Why Ongoing Project?</h2>
-                    <p className="text-gray-600 max-w-2xl mx-auto">Kami memberikan pengalaman kustomisasi terbaik dengan kualitas produk yang tidak main-main.</p>
+                    <h2 className="text-3xl font-bold text-gray-900 mb-4">{t("why.title")}</h2>
+                    <p className="text-gray-600 max-w-2xl mx-auto">{t("why.subtitle")}</p>
                 </div>
 
                 <div className="grid md:grid-cols-3 gap-8">
@@ -0,0 +1,98 @@
+"use client";
+
+import Image from "next/image";
+import { AlertTriangle, Minus, Pencil, Plus, Trash2 } from "lucide-react";
+import { PanelButton } from "./MyDesignsPanel";
+import { getBase } from "../lib/catalog";
+import { designProductType } from "../lib/design";
+import { CartItem } from "../lib/designStorage";
+import { MAX_QUANTITY } from "../lib/orders";
+import { decodeDesign, sharedUploadIds } from "../lib/share";
+import { useMissingUploads } from "../lib/useMissingUploads";
+import { useCatalog } from "../components/CatalogProvider";
+import { useT } from "../components/LocaleProvider";
+
+type CartPanelProps = {
+    items: CartItem[];
+    editingId: string | null; // The item open on the canvas, if any
+    onQuantityChange: (id: string, quantity: number) => void;
+    onEdit: (item: CartItem) => void;
+    onRemove: (item: CartItem) => void;
+};
+
+// The cart: designs ordered together, each with its thumbnail and quantity.
+// Designs that no longer fit the catalog can only be removed; ones with an
+// upload the server no longer has are flagged.
+export default function CartPanel({ items, editingId, onQuantityChange, onEdit, onRemove }: CartPanelProps) {
+    const t = useT();
+    const catalog = useCatalog();
+    const missingUploads = useMissingUploads(items.flatMap(item => sharedUploadIds(item.design)));
+
+    const setQuantity = (id: string, value: number) =>
+        onQuantityChange(id, Math.min(Math.max(Number.isFinite(value) ? Math.round(value) : 1, 1), MAX_QUANTITY));
+
+    return (
+        <div className="mb-6">
+            <div className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wider">{t("cart.title", { count: items.length })}</div>
+            <ul className="space-y-2">
+                {items.map((item, i) => {
+                    const design = decodeDesign(item.design, catalog);
+                    const base = design ? getBase(catalog, design.baseId) : undefined;
+                    const name = t("cart.item", { number: i + 1 });
+                    return (
+                        <li key={item.id} className={`flex items-center gap-3 p-2 rounded-xl border ${item.id === editingId ? 'border-brand-mint bg-brand-mint/5' : 'border-gray-100'}`}>
+                            <div className="relative w-12 h-12 flex-shrink-0 bg-gray-50 rounded-lg overflow-hidden">
+                                <Image src={item.thumbnail} alt="" fill unoptimized className="object-contain" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm font-semibold text-gray-800 truncate">
+                                    {name}
+                                    {item.id === editingId && <span className="ml-1.5 text-xs font-semibold text-brand-mint">{t("cart.editing")}</span>}
+                                </div>
+                                {design && base ? (
+                                    <>
+                                        <div className="text-xs text-gray-400 truncate">{designProductType(design, catalog).name} · {base.name}</div>
+                                        {sharedUploadIds(item.design).some(id => missingUploads.has(id)) && (
+                                            <div className="flex items-center gap-1 text-xs text-amber-600">
+                                                <AlertTriangle size={12} className="flex-shrink-0" /> <span className="truncate">{t("cart.uploadMissing")}</span>
+                                            </div>
+                                        )}
+                                    </>
+                                ) : (
+                                    <div className="flex items-center gap-1 text-xs text-amber-600">
+                                        <AlertTriangle size={12} className="flex-shrink-0" /> <span className="truncate">{t("cart.invalid")}</span>
+                                    </div>
+                                )}
+                                <div className="mt-1 inline-flex items-center border border-gray-200 rounded-md bg-white">
+                                    <button type="button" onClick={() => setQuantity(item.id, item.quantity - 1)} aria-label={t("cart.decrease", { name })} className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-40" disabled={item.quantity <= 1}>
+                                        <Minus size={12} />
+                                    </button>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        max={MAX_QUANTITY}
+                                        value={item.quantity}
+                                        onChange={(e) => setQuantity(item.id, parseInt(e.target.value))}
+                                        aria-label={t("cart.quantity", { name })}
+                                        className="w-12 text-center text-xs font-semibold focus:outline-none"
+                                    />
+                                    <button type="button" onClick={() => setQuantity(item.id, item.quantity + 1)} aria-label={t("cart.increase", { name })} className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-40" disabled={item.quantity >= MAX_QUANTITY}>
+                                        <Plus size={12} />
+                                    </button>
+                                </div>
+                            </div>
+                            {design && (
+                                <PanelButton label={t("cart.edit", { name })} onClick={() => onEdit(item)}>
+                                    <Pencil size={14} />
+                                </PanelButton>
+                            )}
+                            <PanelButton label={t("cart.remove", { name })} onClick={() => onRemove(item)} danger>
+                                <Trash2 size={14} />
+                            </PanelButton>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { Search, X } from "lucide-react";
+import { Catalog, Charm, listedCharms, searchCharms } from "../lib/catalog";
+import { useCatalog } from "../components/CatalogProvider";
+import { useT } from "../components/LocaleProvider";
+
+// The built-in tabs are kept apart from categories, so a category can have any id
+export type CharmTab = { kind: 'all' } | { kind: 'recent' } | { kind: 'category'; id: string }; // id: CharmCategory id
+
+export type CharmFilter = {
+    query: string;
+    tab: CharmTab;
+};
+
+export const NO_CHARM_FILTER: CharmFilter = { query: "", tab: { kind: 'all' } };
+
+const tabKey = (tab: CharmTab) => tab.kind === 'category' ? `category:${tab.id}` : tab.kind;
+
+/** The charms a filter shows: recently used ones newest first, otherwise in catalog order. Hidden charms never show. */
+export function filterCharms(filter: CharmFilter, recentIds: string[], catalog: Catalog): Charm[] {
+    const listed = listedCharms(catalog);
+    const { tab } = filter;
+    const charms = tab.kind === 'recent'
+        ? recentIds.flatMap(id => listed.find(c => c.id === id) ?? [])
+        : tab.kind === 'all' ? listed : listed.filter(c => c.category === tab.id);
+    return searchCharms(catalog, charms, filter.query);
+}
+
+type CharmFilterBarProps = {
+    filter: CharmFilter;
+    hasRecent: boolean;
+    onChange: (filter: CharmFilter) => void;
+};
+
+// Search box and category tabs above the charm picker, shared by the
+// template slots and the free-drag palette.
+export default function CharmFilterBar({ filter, hasRecent, onChange }: CharmFilterBarProps) {
+    const t = useT();
+    const catalog = useCatalog();
+    const tabs: { tab: CharmTab; label: string }[] = [
+        { tab: { kind: 'all' }, label: t("charms.all") },
+        ...(hasRecent ? [{ tab: { kind: 'recent' } as const, label: t("charms.recent") }] : []),
+        ...catalog.charmCategories.map(c => ({ tab: { kind: 'category', id: c.id } as const, label: c.name })),
+    ];
+    const activeKey = tabKey(filter.tab);
+
+    return (
+        <div className="mb-4 space-y-3">
+            <div className="relative">
+                <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none" />
+                <input
+                    type="search"
+                    value={filter.query}
+                    onChange={(e) => onChange({ ...filter, query: e.target.value })}
+                    placeholder={t("charms.search")}
+                    aria-label={t("charms.search")}
+                    className="w-full pl-9 pr-9 py-2 text-sm rounded-lg border border-gray-200 focus:border-brand-mint focus:outline-none [&::-webkit-search-cancel-button]:hidden"
+                />
+                {filter.query && (
+                    <button
+                        type="button"
+                        onClick={() => onChange({ ...filter, query: "" })}
+                        aria-label={t("charms.clearSearch")}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 p-1 rounded-md text-gray-400 hover:text-gray-700"
+                    >
+                        <X size={14} />
+                    </button>
+                )}
+            </div>
+            <div role="group" aria-label={t("charms.categories")} className="flex gap-2 overflow-x-auto pb-1">
+                {tabs.map(({ tab, label }) => (
+                    <button
+                        key={tabKey(tab)}
+                        type="button"
+                        aria-pressed={activeKey === tabKey(tab)}
+                        onClick={() => onChange({ ...filter, tab })}
+                        className={`flex-shrink-0 px-3 py-1 text-xs font-semibold rounded-full border transition-colors ${activeKey === tabKey(tab) ? 'bg-brand-mint border-brand-mint text-white' : 'bg-white border-gray-200 text-gray-600 hover:border-brand-mint/50'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
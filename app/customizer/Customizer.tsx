@@ -0,0 +1,1739 @@
+"use client";
+
+import { useState, useRef, useEffect, useMemo } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import Navbar from "../components/Navbar";
+import Footer from "../components/Footer";
+import LayersPanel from "./LayersPanel";
+import ExportPanel from "./ExportPanel";
+import MyDesignsPanel from "./MyDesignsPanel";
+import CartPanel from "./CartPanel";
+import CharmFilterBar, { CharmFilter, filterCharms, NO_CHARM_FILTER } from "./CharmFilterBar";
+import PriceSummary from "./PriceSummary";
+import TextControls from "./TextControls";
+import UploadPanel from "./UploadPanel";
+import { useCatalog } from "../components/CatalogProvider";
+import { useLocale, useT } from "../components/LocaleProvider";
+import { availability, Catalog, Charm, getBase, getCharm, listedBases, productBases, ProductType, SlotTemplate, thumbnailSrc } from "../lib/catalog";
+import { charmRefusal, compatibilityIssues, describeRefusal } from "../lib/compatibility";
+import { WHATSAPP_NUMBER } from "../lib/constants";
+import { CharmItem, customizerHref, DesignItem, DesignState, designProductType, initialDesignFor, ItemTransform, Mode, TextItem, UploadItem, fitSlots, fitText, generateId } from "../lib/design";
+import { INTL_LOCALES, Translate } from "../lib/i18n";
+import { addRecentCharm, addToCart, CartItem, cartStore, clearCart, deleteDesign, designsStore, duplicateDesign, loadDraft, openDesign, recentCharmsStore, removeFromCart, SavedDesign, saveDesign, saveDraft, updateCartItem } from "../lib/designStorage";
+import { MAX_ORDER_ITEMS, MAX_QUANTITY } from "../lib/orders";
+import { designUploadIds, formatIDR, ItemQuote, OrderedDesign, quoteOrder } from "../lib/pricing";
+import { describeStockIssue, stockIssues } from "../lib/stock";
+import {
+    clampScale, clampToRect, GRID_SIZE, Guides, hitHandle, hitsOpaquePixel, isInsideRect, MAX_SCALE, MIN_SCALE,
+    normalizeRotation, ROTATE_HANDLE_OFFSET, snapPoint, toCanvasRect, TransformHandle,
+} from "../lib/geometry";
+import { downloadBlob, downloadCanvas, loadPlacementImage, maxPrintDpi, PrintOptions, renderPrint, renderProductionSheet } from "../lib/printExport";
+import { contentFields, designPlacements, drawBase, drawCharm } from "../lib/render";
+import { buildShareUrl, CART_PARAM, decodeDesign, encodeDesign, SHARE_PARAM } from "../lib/share";
+import { cachedTextImage, DEFAULT_TEXT_STYLE, TextStyle, textWidth } from "../lib/text";
+import { MIN_PRINT_DPI, printDpi, uploadUrl } from "../lib/upload";
+import { buildVectorLayout, renderPdf, renderSvg } from "../lib/vectorExport";
+import { useHistory } from "../lib/useHistory";
+import { useMissingUploads } from "../lib/useMissingUploads";
+import { useStoredList } from "../lib/useStoredList";
+import { RefreshCw, Type, MessageCircle, ZoomIn, ZoomOut, Check, ChevronLeft, ChevronRight, Edit, Eye, Link2, Undo2, Redo2, FlipHorizontal2, Grid3x3, AlertTriangle, ShoppingBag } from "lucide-react";
+
+// Snap distance for alignment guides, in canvas pixels
+const SNAP_THRESHOLD = 8;
+
+// Keyboard nudge steps (normalized canvas units)
+const NUDGE_STEP = 0.005;
+const NUDGE_STEP_LARGE = 0.05;
+
+// Helper: human-readable position for screen reader announcements
+const describePosition = (item: { x: number, y: number }, t: Translate) =>
+    t("a11y.position", { x: Math.round(item.x * 100), y: Math.round(item.y * 100) });
+
+// Helpers: catalog lookups for charms referenced by a design
+const charmImage = (charmId: string, catalog: Catalog) => getCharm(catalog, charmId)?.image;
+const charmName = (charmId: string, catalog: Catalog, t: Translate) => getCharm(catalog, charmId)?.name ?? t("customizer.charm");
+const itemName = (item: DesignItem, catalog: Catalog, t: Translate) =>
+    item.type === 'text' ? t("text.itemName", { text: item.text })
+        : item.type === 'upload' ? t("upload.itemName")
+            : charmName(item.charmId, catalog, t);
+const currentBase = (design: DesignState, productType: ProductType, catalog: Catalog) =>
+    getBase(catalog, design.baseId) ?? productBases(catalog, productType.id)[0];
+
+// Zoom is a view setting, not an edit: undo/redo leaves it where it is
+const keepZoom = (restored: DesignState, current: DesignState) => ({ ...restored, zoom: current.zoom });
+
+type CustomizerProps = {
+    productType: ProductType;
+    initialDesign: DesignState | null;
+    invalidShareLink: boolean;
+    readOnly: boolean; // Show initialDesign without editing or ordering (see VIEW_PARAM)
+    cartItemId: string | null; // The cart item initialDesign is opened to edit (see CART_PARAM)
+};
+
+export default function Customizer({ productType, initialDesign, invalidShareLink, readOnly, cartItemId }: CustomizerProps) {
+    const t = useT();
+    const locale = useLocale();
+    const catalog = useCatalog();
+    const router = useRouter();
+    const layout = productType.canvas;
+    const bases = listedBases(catalog, productType.id);
+
+    // State
+    const {
+        state,
+        set: setState,
+        reset,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+        beginGesture,
+        endGesture,
+    } = useHistory<DesignState>(initialDesign ?? initialDesignFor(productType, catalog), { merge: keepZoom });
+    const base = currentBase(state, productType, catalog);
+
+    // Manual Mode Specific State
+    const [isEditing, setIsEditing] = useState(!readOnly); // Toggle between Edit (Guides/Drag) and Preview (Clean)
+
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [shareNotice, setShareNotice] = useState<string | null>(invalidShareLink ? t("customizer.invalidShareLink") : null);
+    const [draggedItem, setDraggedItem] = useState<string | null>(null); // ID of item being moved on canvas
+    const [selectedId, setSelectedId] = useState<string | null>(null); // ID of item showing transform handles
+    const [showGrid, setShowGrid] = useState(false);
+    const [guides, setGuides] = useState<Guides>({ x: [], y: [] }); // Alignment guides shown while dragging
+    const [baseAspect, setBaseAspect] = useState(16 / 9); // Height/width of the current base image, updated once it loads
+    const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const imageCache = useRef<Map<string, HTMLImageElement>>(new Map());
+
+    // Screen reader announcements (the counter makes repeated messages re-announce)
+    const [announcement, setAnnouncement] = useState({ text: "", count: 0 });
+    const announce = (text: string) => setAnnouncement(a => ({ text, count: a.count + 1 }));
+
+    // Order Form State
+    const [orderForm, setOrderForm] = useState<{ name: string, contact: string, quantity: number, addOns: string[] }>({ name: "", contact: "", quantity: 1, addOns: [] });
+    const [orderError, setOrderError] = useState<string | null>(null);
+    const [refusal, setRefusal] = useState<string | null>(null); // Why the last charm picked wasn't placed
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [lastOrderId, setLastOrderId] = useState<string | null>(null); // Shown on the production sheet
+    const [isExporting, setIsExporting] = useState(false);
+    const savedDesigns = useStoredList(designsStore);
+    const recentCharmIds = useStoredList(recentCharmsStore);
+    const [charmFilter, setCharmFilter] = useState<CharmFilter>(NO_CHARM_FILTER);
+    const [galleryError, setGalleryError] = useState<string | null>(null);
+    const [isSavingDesign, setIsSavingDesign] = useState(false);
+    const cart = useStoredList(cartStore);
+    const [editingCartId, setEditingCartId] = useState(cartItemId); // Cart item the canvas is editing
+    const [cartError, setCartError] = useState<string | null>(null);
+    const [isAddingToCart, setIsAddingToCart] = useState(false);
+
+    // Custom Confirm Modal State
+    const [confirmModal, setConfirmModal] = useState<{
+        isOpen: boolean;
+        title: string;
+        message: string;
+        onConfirm: () => void;
+    }>({
+        isOpen: false,
+        title: "",
+        message: "",
+        onConfirm: () => { },
+    });
+
+    const showConfirm = (title: string, message: string, onConfirm: () => void) => {
+        setConfirmModal({ isOpen: true, title, message, onConfirm });
+    };
+
+    const closeConfirm = () => {
+        setConfirmModal(prev => ({ ...prev, isOpen: false }));
+    };
+
+    // Constants
+    const CANVAS_SIZE = 800;
+    const CANVAS_HEIGHT = CANVAS_SIZE * layout.aspect;
+    const canvasCenter = { x: 0.5, y: layout.aspect / 2 };
+
+    // Helper: Load Image with Cache (Robust with decode)
+    const loadImage = async (src: string): Promise<HTMLImageElement | null> => {
+        // Cache bust for debugging production issues
+        // const cacheBustedSrc = `${src}?t=${Date.now()}`; 
+        // caching might be important for perf, so let's stick to src but log errors carefully.
+
+        if (imageCache.current.has(src)) return imageCache.current.get(src)!;
+
+        const img = new window.Image();
+        img.src = src;
+        try {
+            await img.decode();
+            imageCache.current.set(src, img);
+            return img;
+        } catch (err) {
+            console.error(`Failed to decode image: ${src}`, err);
+            // Fallback to standard load
+            return new Promise((resolve) => {
+                img.onload = () => {
+                    imageCache.current.set(src, img);
+                    resolve(img);
+                };
+                img.onerror = (e) => {
+                    console.error("Image load failed standard way too", src, e);
+                    resolve(null);
+                };
+            });
+        }
+    };
+
+    // Helper: Screen to Canvas Coords
+    const getCanvasCoords = (e: { clientX: number, clientY: number }, canvas: HTMLCanvasElement) => {
+        const rect = canvas.getBoundingClientRect();
+        const clientX = e.clientX;
+        const clientY = e.clientY;
+
+        // The canvas is drawn object-contain, so one scale fits both axes
+        const scale = Math.max(CANVAS_SIZE / rect.width, CANVAS_HEIGHT / rect.height);
+
+        const cx = rect.width / 2;
+        const cy = rect.height / 2;
+
+        const relX = ((clientX - rect.left - cx) * scale) / state.zoom + (CANVAS_SIZE / 2);
+        const relY = ((clientY - rect.top - cy) * scale) / state.zoom + (CANVAS_HEIGHT / 2);
+
+        return {
+            x: relX / CANVAS_SIZE,
+            y: relY / CANVAS_SIZE
+        };
+    };
+
+    // Generator Preview
+    const updatePreview = () => {
+        if (canvasRef.current) {
+            // We need to render cleanly without guides for the preview
+            // But getting dataURL captures what's currently on canvas.
+            // If guides are on, they will be captured. 
+            // For now, let's just capture what is seen. User should switch to "Preview" mode to generate clean image.
+            setPreviewUrl(canvasRef.current.toDataURL("image/png"));
+        }
+    };
+
+    // -------------------
+    // RENDER LOGIC
+    // -------------------
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
+
+        let isMounted = true;
+
+        const render = async () => {
+            // 1. Pre-load all assets first
+            // Don't clear rect yet!
+
+            try {
+                // Base
+                const base = currentBase(state, productType, catalog);
+                const basePath = base.image;
+
+                // Charms and text to draw
+                const placements = designPlacements(state, base, baseAspect, layout);
+
+                // Wait for all images (skip anything that doesn't resolve to an asset)
+                const [baseImg, ...charmImages] = await Promise.all([
+                    basePath ? loadImage(basePath) : Promise.resolve(null),
+                    ...placements.map(p => loadPlacementImage(p, catalog, loadImage)),
+                ]);
+
+                if (!isMounted) return;
+
+                // 2. NOW we draw everything synchronously
+                ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_HEIGHT);
+                ctx.save();
+                ctx.translate(CANVAS_SIZE / 2, CANVAS_HEIGHT / 2);
+                ctx.scale(state.zoom, state.zoom);
+                ctx.translate(-CANVAS_SIZE / 2, -CANVAS_HEIGHT / 2);
+
+                // Draw Base
+                if (baseImg) {
+                    setBaseAspect(baseImg.height / baseImg.width);
+                    drawBase(ctx, baseImg, layout, CANVAS_SIZE);
+                } else {
+                    // DEBUG: Visual error on canvas
+                    ctx.fillStyle = "#EF4444";
+                    ctx.font = "bold 24px sans-serif";
+                    ctx.textAlign = "center";
+                    ctx.fillText(t("customizer.baseLoadError"), CANVAS_SIZE / 2, CANVAS_HEIGHT / 2);
+                    ctx.font = "16px sans-serif";
+                    ctx.fillText(basePath || t("customizer.unknownPath"), CANVAS_SIZE / 2, CANVAS_HEIGHT / 2 + 30);
+                }
+
+                const showGuides = state.mode === 'manual' && isEditing;
+                const area = toCanvasRect(base.printableArea, baseImg ? baseImg.height / baseImg.width : baseAspect, layout);
+
+                // Grid
+                if (showGuides && showGrid) {
+                    ctx.strokeStyle = 'rgba(16,185,129,0.15)';
+                    ctx.lineWidth = 1 / state.zoom;
+                    ctx.beginPath();
+                    for (let g = 0; g <= 1 + 1e-9; g += GRID_SIZE) {
+                        ctx.moveTo(CANVAS_SIZE * g, 0);
+                        ctx.lineTo(CANVAS_SIZE * g, CANVAS_HEIGHT);
+                    }
+                    for (let g = 0; g <= layout.aspect + 1e-9; g += GRID_SIZE) {
+                        ctx.moveTo(0, CANVAS_SIZE * g);
+                        ctx.lineTo(CANVAS_SIZE, CANVAS_SIZE * g);
+                    }
+                    ctx.stroke();
+                }
+
+                // Printable Area
+                if (showGuides) {
+                    ctx.strokeStyle = 'rgba(17,24,39,0.35)';
+                    ctx.lineWidth = 1.5 / state.zoom;
+                    ctx.setLineDash([8 / state.zoom, 6 / state.zoom]);
+                    ctx.strokeRect(CANVAS_SIZE * area.x, CANVAS_SIZE * area.y, CANVAS_SIZE * area.width, CANVAS_SIZE * area.height);
+                    ctx.setLineDash([]);
+                }
+
+                // Draw Charms
+                placements.forEach((placement, idx) => {
+                    const img = charmImages[idx];
+                    if (!img) return;
+
+                    const { cw, ch } = drawCharm(ctx, img, placement, CANVAS_SIZE);
+
+                    // Outside the printable area: flag it in red
+                    if (showGuides && !isInsideRect(placement, area)) {
+                        ctx.strokeStyle = '#EF4444';
+                        ctx.lineWidth = 2 / state.zoom;
+                        ctx.strokeRect(-cw / 2, -ch / 2, cw, ch);
+                    }
+
+                    if (state.mode === 'manual' && isEditing && placement.itemId === selectedId) {
+                        const handleSize = 10 / state.zoom;
+                        const rotateY = -ch / 2 - ROTATE_HANDLE_OFFSET / state.zoom;
+
+                        ctx.strokeStyle = '#10B981';
+                        ctx.lineWidth = 2 / state.zoom;
+                        ctx.setLineDash([5, 5]);
+                        ctx.strokeRect(-cw / 2, -ch / 2, cw, ch);
+                        ctx.setLineDash([]);
+
+                        // Rotate Handle
+                        ctx.beginPath();
+                        ctx.moveTo(0, -ch / 2);
+                        ctx.lineTo(0, rotateY);
+                        ctx.stroke();
+                        ctx.fillStyle = '#FFFFFF';
+                        ctx.beginPath();
+                        ctx.arc(0, rotateY, handleSize / 2 + 1 / state.zoom, 0, Math.PI * 2);
+                        ctx.fill();
+                        ctx.stroke();
+
+                        // Corner Resize Handles
+                        [[-1, -1], [1, -1], [1, 1], [-1, 1]].forEach(([sx, sy]) => {
+                            const hx = (sx * cw) / 2 - handleSize / 2;
+                            const hy = (sy * ch) / 2 - handleSize / 2;
+                            ctx.fillRect(hx, hy, handleSize, handleSize);
+                            ctx.strokeRect(hx, hy, handleSize, handleSize);
+                        });
+
+                        // Center Dot Handle
+                        ctx.fillStyle = '#10B981';
+                        ctx.beginPath();
+                        ctx.arc(0, 0, 6 / state.zoom, 0, Math.PI * 2);
+                        ctx.fill();
+                    }
+                    ctx.restore();
+                });
+
+                // Alignment Guides (while dragging)
+                if (showGuides && (guides.x.length > 0 || guides.y.length > 0)) {
+                    ctx.strokeStyle = '#F472B6';
+                    ctx.lineWidth = 1 / state.zoom;
+                    ctx.beginPath();
+                    guides.x.forEach(gx => {
+                        ctx.moveTo(CANVAS_SIZE * gx, 0);
+                        ctx.lineTo(CANVAS_SIZE * gx, CANVAS_HEIGHT);
+                    });
+                    guides.y.forEach(gy => {
+                        ctx.moveTo(0, CANVAS_SIZE * gy);
+                        ctx.lineTo(CANVAS_SIZE, CANVAS_SIZE * gy);
+                    });
+                    ctx.stroke();
+                }
+
+            } catch (err) {
+                console.error("Render error", err);
+            } finally {
+                ctx.restore();
+            }
+        };
+
+        render();
+
+        // Initial preview generation only if not dragging
+        if (!draggedItem) {
+            const timeout = setTimeout(updatePreview, 500);
+            return () => clearTimeout(timeout);
+        }
+
+        return () => { isMounted = false; };
+    }, [state, isEditing, draggedItem, selectedId, guides, showGrid, baseAspect, productType, layout, CANVAS_HEIGHT, catalog, t]);
+
+    // -------------------
+    // DRAFT AUTOSAVE
+    // -------------------
+    // Restore the last draft on load, unless we were opened from a share link
+    useEffect(() => {
+        if (initialDesign) return;
+        const draft = loadDraft(catalog, productType.id);
+        if (draft) reset(draft);
+    }, [initialDesign, productType.id, catalog, reset]);
+
+    // A read-only view must not replace the viewer's own draft
+    useEffect(() => {
+        if (readOnly) return;
+        const timeout = setTimeout(() => saveDraft(state, productType.id), 500);
+        return () => clearTimeout(timeout);
+    }, [state, productType.id, readOnly]);
+
+    // -------------------
+    // UNDO / REDO SHORTCUTS
+    // -------------------
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            // Leave native undo alone inside form fields
+            const target = e.target as HTMLElement;
+            if (target.closest("input, textarea, select, [contenteditable='true']")) return;
+
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [undo, redo]);
+
+    // -------------------
+    // MODE SWITCHING
+    // -------------------
+    const switchMode = (newMode: Mode) => {
+        if (newMode === state.mode) return;
+        setRefusal(null);
+
+        if (newMode === 'manual' && state.mode === 'fixed') {
+            // Convert slots (and the text slot) to manual items
+            const newItems: DesignItem[] = designPlacements(state, base, baseAspect, layout).map(p => ({
+                ...contentFields(p),
+                id: generateId(), x: p.x, y: p.y, z: p.scale, rotation: 0, flipX: false,
+            }));
+
+            setState(s => ({ ...s, mode: 'manual', manualItems: newItems }));
+            setIsEditing(true); // Default to edit mode
+        } else if (newMode === 'fixed') {
+            showConfirm(
+                t("confirm.fixedMode.title"),
+                t("confirm.fixedMode.message"),
+                () => {
+                    setState(s => ({ ...s, mode: 'fixed' }));
+                    setSelectedId(null);
+                }
+            );
+        }
+    };
+
+    // Drag State Refs (for high-frequency updates without stale closures)
+    const dragState = useRef<{
+        isDragging: boolean;
+        draggedItemId: string | null;
+        handle: TransformHandle;
+        startOffset: { x: number, y: number };
+        startScale: number;
+        startDistance: number;
+    }>({
+        isDragging: false,
+        draggedItemId: null,
+        handle: 'move',
+        startOffset: { x: 0, y: 0 },
+        startScale: 0,
+        startDistance: 0
+    });
+
+    const [cursor, setCursor] = useState<'default' | 'grab' | 'grabbing' | 'nwse-resize' | 'alias'>('default');
+
+    // Helper: the item's loaded image, if any
+    const getItemImage = (item: DesignItem) => {
+        if (item.type === 'text') return cachedTextImage(item);
+        const src = item.type === 'upload' ? uploadUrl(item.uploadId) : charmImage(item.charmId, catalog);
+        return src ? imageCache.current.get(src) : undefined;
+    };
+
+    // Helper: height/width ratio of an item's image (falls back to square until it's loaded)
+    const getAspect = (item: DesignItem) => {
+        const img = getItemImage(item);
+        return img ? img.height / img.width : 1;
+    };
+
+    // Helper: is the point over one of the item's opaque pixels?
+    const hitTest = (point: { x: number, y: number }, item: DesignItem) =>
+        hitsOpaquePixel(point, item, getItemImage(item));
+
+    const updateItem = (id: string, patch: Partial<ItemTransform>, options?: { record?: boolean }) => {
+        setState(s => ({
+            ...s,
+            manualItems: s.manualItems.map(item => item.id === id ? { ...item, ...patch } : item)
+        }), options);
+    };
+
+    // Printable area of the current base, in canvas coordinates
+    const printableArea = toCanvasRect(base.printableArea, baseAspect, layout);
+    const outOfBoundsItems = state.mode === 'manual' ? state.manualItems.filter(item => !isInsideRect(item, printableArea)) : [];
+    // Uploaded images too small for their printed size (unknown until loaded)
+    const lowResolutionItems = state.mode === 'manual' ? state.manualItems.filter(item => {
+        const img = item.type === 'upload' ? getItemImage(item) : undefined;
+        return img ? printDpi(img.width, item.z, base, layout) < MIN_PRINT_DPI : false;
+    }) : [];
+    // Uploads the server no longer has, e.g. in a design saved long ago
+    const missingUploads = useMissingUploads(designUploadIds(state));
+    const missingUploadItems = state.mode === 'manual' ? state.manualItems.filter(item => item.type === 'upload' && missingUploads.has(item.uploadId)) : [];
+
+    const selectedItem = state.mode === 'manual' ? state.manualItems.find(item => item.id === selectedId) ?? null : null;
+
+    // Charms the picker shows, after search and the category tab
+    const visibleCharms = filterCharms(charmFilter, recentCharmIds, catalog);
+
+    // The cart's designs are ordered together; while it's empty, this design on its own
+    const encoded = encodeDesign(state);
+    const editingItem = cart.find(item => item.id === editingCartId) ?? null;
+    const cartDesigns = cart.map(item => decodeDesign(item.design, catalog));
+    const ordered: OrderedDesign[] = cart.length > 0
+        ? cart.flatMap((item, i) => {
+            const design = cartDesigns[i];
+            return design ? [{ design, quantity: item.quantity }] : [];
+        })
+        : [{ design: state, quantity: orderForm.quantity }];
+    const quote = quoteOrder(ordered, orderForm.addOns, catalog);
+
+    // What keeps the order from being placed: cart designs that no longer fit
+    // the catalog, charms a base doesn't allow and sold-out, hidden or short
+    // parts. The order button stays off until they're swapped
+    const issues = [...new Set([
+        ...cartDesigns.flatMap((design, i) => design ? [] : [t("cart.invalidIssue", { number: i + 1 })]),
+        ...ordered.flatMap(({ design }) => compatibilityIssues(design, catalog)).map(issue => describeRefusal(issue, t)),
+        ...stockIssues(ordered, catalog).map(issue => describeStockIssue(issue, t)),
+    ])];
+
+    // Why a charm can't go on the base (in `slot`, or anywhere with null); null if it can
+    const refusalFor = (slot: SlotTemplate | null, charm: Charm) => {
+        const issue = charmRefusal(base, slot, charm);
+        return issue ? describeRefusal(issue, t) : null;
+    };
+
+    // Sold-out charms stay in the pickers, greyed out, but can't be added;
+    // ones the base doesn't allow are refused with the reason
+    const canPlace = (slot: SlotTemplate | null, charmId: string) => {
+        const charm = getCharm(catalog, charmId);
+        if (!charm || availability(charm) !== 'available') return false;
+        const reason = refusalFor(slot, charm);
+        setRefusal(reason);
+        if (reason) announce(reason);
+        return !reason;
+    };
+
+    const addManualItem = (charmId: string, x: number, y: number) => {
+        if (!canPlace(null, charmId)) return;
+        const newItem: CharmItem = { id: generateId(), type: 'charm', charmId, x, y, z: 0.28, rotation: 0, flipX: false };
+        setState(s => ({ ...s, manualItems: [...s.manualItems, newItem] }));
+        setSelectedId(newItem.id);
+        addRecentCharm(charmId);
+        announce(t("a11y.added", { name: charmName(charmId, catalog, t), position: describePosition(newItem, t) }));
+        setTimeout(updatePreview, 100);
+    };
+
+    const addTextItem = () => {
+        if (!base.text) return;
+        const newItem: TextItem = {
+            ...DEFAULT_TEXT_STYLE,
+            text: t("text.default").slice(0, base.text.maxLength),
+            id: generateId(), type: 'text', ...canvasCenter, z: 0.3, rotation: 0, flipX: false,
+        };
+        setState(s => ({ ...s, manualItems: [...s.manualItems, newItem] }));
+        setSelectedId(newItem.id);
+        announce(t("a11y.added", { name: itemName(newItem, catalog, t), position: describePosition(newItem, t) }));
+    };
+
+    const addUploadItem = async (uploadId: string) => {
+        // Loaded first so the item has its aspect ratio from the start
+        await loadImage(uploadUrl(uploadId));
+        const newItem: UploadItem = { id: generateId(), type: 'upload', uploadId, ...canvasCenter, z: 0.3, rotation: 0, flipX: false };
+        setState(s => ({ ...s, manualItems: [...s.manualItems, newItem] }));
+        setSelectedId(newItem.id);
+        announce(t("a11y.added", { name: itemName(newItem, catalog, t), position: describePosition(newItem, t) }));
+    };
+
+    // Text edits keep the font size: the item's width follows the rendered text
+    const updateText = (id: string, patch: Partial<TextStyle>) => {
+        setState(s => ({
+            ...s,
+            manualItems: s.manualItems.map(item => {
+                if (item.id !== id || item.type !== 'text') return item;
+                const next = { ...item, ...patch };
+                const before = textWidth(item);
+                const after = textWidth(next);
+                return before > 0 && after > 0 ? { ...next, z: clampScale(item.z * after / before) } : next;
+            }),
+        }));
+    };
+
+    const setSlotText = (patch: Partial<TextStyle>) => {
+        setState(s => ({ ...s, slotText: { ...(s.slotText ?? DEFAULT_TEXT_STYLE), ...patch } }));
+    };
+
+    const setSlot = (slot: SlotTemplate, charmId: string | null) => {
+        if (charmId !== null && !canPlace(slot, charmId)) return;
+        setState(s => {
+            const slots = { ...s.slots };
+            if (charmId === null) delete slots[slot.id];
+            else slots[slot.id] = charmId;
+            return { ...s, slots };
+        });
+        if (charmId !== null) addRecentCharm(charmId);
+        announce(charmId === null
+            ? t("a11y.slotCleared", { slot: slot.label })
+            : t("a11y.slotFilled", { name: charmName(charmId, catalog, t), slot: slot.label }));
+    };
+
+    // Switching base keeps whatever charms the new base's slots can hold
+    const selectBase = (baseId: string) => {
+        setRefusal(null);
+        setState(s => {
+            const next = getBase(catalog, baseId);
+            return next && availability(next) === 'available' ? { ...s, baseId, slots: fitSlots(s.slots, next, catalog), ...fitText(s, next) } : s;
+        });
+    };
+
+    // Layer Operations
+    const moveLayer = (id: string, toIndex: number) => {
+        setState(s => {
+            const from = s.manualItems.findIndex(item => item.id === id);
+            if (from === -1 || from === toIndex) return s;
+            const items = [...s.manualItems];
+            const [moved] = items.splice(from, 1);
+            items.splice(toIndex, 0, moved);
+            return { ...s, manualItems: items };
+        });
+    };
+
+    const duplicateItem = (id: string) => {
+        const source = state.manualItems.find(item => item.id === id);
+        if (!source) return;
+        // Offset the copy slightly so it doesn't sit exactly on top of the original
+        const copy: DesignItem = { ...source, id: generateId(), x: source.x + 0.03, y: source.y + 0.03, locked: false };
+        setState(s => {
+            const index = s.manualItems.findIndex(item => item.id === id);
+            const items = [...s.manualItems];
+            items.splice(index + 1, 0, copy);
+            return { ...s, manualItems: items };
+        });
+        setSelectedId(copy.id);
+    };
+
+    const removeItem = (id: string) => {
+        const item = state.manualItems.find(i => i.id === id);
+        setState(s => ({ ...s, manualItems: s.manualItems.filter(item => item.id !== id) }));
+        if (selectedId === id) setSelectedId(null);
+        if (item) announce(t("a11y.removed", { name: itemName(item, catalog, t) }));
+    };
+
+    const toggleLock = (id: string) => {
+        const item = state.manualItems.find(i => i.id === id);
+        if (item) updateItem(id, { locked: !item.locked });
+    };
+
+    // -------------------
+    // CANVAS INTERACTION (MANUAL MODE - POINTER EVENTS)
+    // -------------------
+    const handlePointerDown = (e: React.PointerEvent) => {
+        if (state.mode !== 'manual' || !isEditing) return;
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        e.preventDefault();
+
+        const coords = getCanvasCoords(e, canvas);
+
+        // Handles of the current selection take priority over items underneath
+        const handle = selectedItem && !selectedItem.locked ? hitHandle(coords, selectedItem, getAspect(selectedItem), CANVAS_SIZE, state.zoom) : null;
+
+        // Check hit (Reverse to check top items first, locked items are click-through)
+        const clickedItem = handle
+            ? selectedItem
+            : [...state.manualItems].reverse().find(item => !item.locked && hitTest(coords, item));
+
+        if (clickedItem) {
+            // Start dragging (the whole drag becomes a single undo step)
+            beginGesture();
+            dragState.current = {
+                isDragging: true,
+                draggedItemId: clickedItem.id,
+                handle: handle ?? 'move',
+                startOffset: { x: coords.x - clickedItem.x, y: coords.y - clickedItem.y },
+                startScale: clickedItem.z,
+                startDistance: Math.max(Math.hypot(coords.x - clickedItem.x, coords.y - clickedItem.y), 0.001)
+            };
+            setCursor(handle === 'scale' ? 'nwse-resize' : handle === 'rotate' ? 'alias' : 'grabbing');
+
+            // Capture pointer
+            try {
+                (e.target as Element).setPointerCapture(e.pointerId);
+            } catch { }
+
+            // Trigger a re-render to update the visual selection immediately
+            setSelectedId(clickedItem.id);
+            setDraggedItem(clickedItem.id);
+        } else {
+            setSelectedId(null);
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        e.preventDefault();
+
+        const coords = getCanvasCoords(e, canvas);
+
+        // 1. Handle Dragging
+        if (dragState.current.isDragging && dragState.current.draggedItemId) {
+            const { draggedItemId, handle, startOffset, startScale, startDistance } = dragState.current;
+
+            // Moving: snap to guides (hold Alt to skip), then keep the center inside the printable area
+            let target = { x: coords.x - startOffset.x, y: coords.y - startOffset.y };
+            if (handle === 'move') {
+                if (!e.altKey) {
+                    const others = state.manualItems.filter(item => item.id !== draggedItemId);
+                    const snap = snapPoint(target, others, printableArea, layout.aspect, SNAP_THRESHOLD / state.zoom / CANVAS_SIZE, showGrid);
+                    target = snap.point;
+                    setGuides(snap.guides);
+                } else {
+                    setGuides({ x: [], y: [] });
+                }
+                target = clampToRect(target, printableArea);
+            }
+
+            setState(s => ({
+                ...s,
+                manualItems: s.manualItems.map(item => {
+                    if (item.id !== draggedItemId) return item;
+                    if (handle === 'scale') {
+                        const distance = Math.hypot(coords.x - item.x, coords.y - item.y);
+                        return { ...item, z: clampScale(startScale * distance / startDistance) };
+                    }
+                    if (handle === 'rotate') {
+                        // Handle sits straight above the center, so 0deg points "up"
+                        const angle = Math.atan2(coords.y - item.y, coords.x - item.x) * 180 / Math.PI + 90;
+                        const snapped = e.shiftKey ? Math.round(angle / 15) * 15 : Math.round(angle);
+                        return { ...item, rotation: normalizeRotation(snapped) };
+                    }
+                    return { ...item, ...target };
+                })
+            }));
+            return;
+        }
+
+        // 2. Handle Hover (only if in manual mode and editing)
+        if (state.mode === 'manual' && isEditing) {
+            const handle = selectedItem && !selectedItem.locked ? hitHandle(coords, selectedItem, getAspect(selectedItem), CANVAS_SIZE, state.zoom) : null;
+            if (handle) {
+                setCursor(handle === 'scale' ? 'nwse-resize' : 'alias');
+                return;
+            }
+            const hoveredItem = [...state.manualItems].reverse().find(item => !item.locked && hitTest(coords, item));
+            setCursor(hoveredItem ? 'grab' : 'default');
+        }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent) => {
+        if (!dragState.current.isDragging) return;
+
+        // Release capture
+        try {
+            if ((e.target as Element).hasPointerCapture(e.pointerId)) {
+                (e.target as Element).releasePointerCapture(e.pointerId);
+            }
+        } catch { }
+
+        // End drag
+        dragState.current = { isDragging: false, draggedItemId: null, handle: 'move', startOffset: { x: 0, y: 0 }, startScale: 0, startDistance: 0 };
+        endGesture();
+        setGuides({ x: [], y: [] });
+        setCursor('grab'); // Return to grab cursor since we are likely still over the item
+        setDraggedItem(null); // Clear React state for rendering selection
+        updatePreview();
+    };
+
+    // Drag from Sidebar
+    const handleDragStart = (e: React.DragEvent, charmId: string) => {
+        e.dataTransfer.setData("charmId", charmId);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        if (state.mode !== 'manual' || !isEditing) return;
+        e.preventDefault();
+        const charmId = e.dataTransfer.getData("charmId");
+        if (!getCharm(catalog, charmId)) return;
+
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+
+        const coords = getCanvasCoords(e, canvas);
+        const position = clampToRect(coords, printableArea);
+        addManualItem(charmId, position.x, position.y);
+    };
+
+    // -------------------
+    // CANVAS KEYBOARD CONTROL (MANUAL MODE)
+    // -------------------
+    const selectItem = (item: DesignItem) => {
+        setSelectedId(item.id);
+        const layer = state.manualItems.indexOf(item) + 1;
+        announce(t("a11y.selected", { name: itemName(item, catalog, t), layer, total: state.manualItems.length, position: describePosition(item, t) }));
+    };
+
+    const handleCanvasKeyDown = (e: React.KeyboardEvent) => {
+        if (state.mode !== 'manual' || !isEditing) return;
+
+        // Tab cycles through unlocked items; past either end focus leaves the canvas as usual
+        if (e.key === 'Tab') {
+            const selectable = state.manualItems.filter(item => !item.locked);
+            const current = selectable.findIndex(item => item.id === selectedId);
+            const next = current === -1
+                ? (e.shiftKey ? selectable.length - 1 : 0)
+                : current + (e.shiftKey ? -1 : 1);
+            if (next < 0 || next >= selectable.length) {
+                setSelectedId(null);
+                return;
+            }
+            e.preventDefault();
+            selectItem(selectable[next]);
+            return;
+        }
+
+        if (!selectedItem) return;
+
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            setSelectedId(null);
+            announce(t("a11y.deselected"));
+            return;
+        }
+
+        if (selectedItem.locked) return;
+
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            removeItem(selectedItem.id);
+            return;
+        }
+
+        const arrows: Record<string, [number, number]> = {
+            ArrowLeft: [-1, 0],
+            ArrowRight: [1, 0],
+            ArrowUp: [0, -1],
+            ArrowDown: [0, 1],
+        };
+        const direction = arrows[e.key];
+        if (direction) {
+            e.preventDefault();
+            const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+            const moved = clampToRect({ x: selectedItem.x + direction[0] * step, y: selectedItem.y + direction[1] * step }, printableArea);
+            updateItem(selectedItem.id, moved);
+            announce(t("a11y.moved", { name: itemName(selectedItem, catalog, t), position: describePosition(moved, t) }));
+        }
+    };
+
+    // -------------------
+    // UTILS
+    // -------------------
+    const handleWhatsApp = async () => {
+        if (issues.length > 0) return;
+        if (!orderForm.name.trim() || !orderForm.contact.trim()) {
+            setOrderError(t("order.missingFields"));
+            return;
+        }
+
+        // Open the tab synchronously so popup blockers don't eat it after the await
+        const waWindow = window.open("", "_blank");
+        setIsSubmitting(true);
+        setOrderError(null);
+
+        const items = cart.length > 0
+            ? cart.map(item => ({ design: item.design, quantity: item.quantity }))
+            : [{ design: encoded, quantity: orderForm.quantity }];
+
+        try {
+            const res = await fetch("/api/orders", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    items,
+                    customer: { name: orderForm.name, contact: orderForm.contact },
+                    addOns: orderForm.addOns,
+                }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error || t("order.failed"));
+            setLastOrderId(data.id);
+
+            const products = [...new Set(ordered.map(({ design }) => designProductType(design, catalog).name))].join(", ");
+            const lineText = (item: ItemQuote) =>
+                item.lines.map(line => `- ${line.label}${line.count > 1 ? ` ×${line.count}` : ""}: ${formatIDR(line.unitPrice * line.count)}\n`).join("");
+            // One design: its per-piece breakdown. Several: each with its quantity, breakdown and link
+            const itemsText = quote.items.length === 1
+                ? `${t("whatsapp.perUnit")}\n${lineText(quote.items[0])}`
+                : quote.items.map((item, i) =>
+                    `${t("whatsapp.item", { number: i + 1, label: item.label, count: item.quantity, amount: formatIDR(item.unitPrice) })}\n` +
+                    lineText(item) +
+                    `${t("whatsapp.itemLink", { url: data.designUrls[i] })}\n\n`).join("");
+            const text = `${t("whatsapp.greeting", { product: products })}\n\n` +
+                `${t("whatsapp.orderId", { id: data.id })}\n` +
+                `${t("whatsapp.name", { name: orderForm.name.trim() })}\n` +
+                `${t("whatsapp.quantity", { count: quote.quantity })}\n\n` +
+                itemsText +
+                (quote.discount > 0 ? `${t("whatsapp.discount", { percent: quote.discountPercent, amount: formatIDR(quote.discount) })}\n` : "") +
+                `${t("whatsapp.total", { amount: formatIDR(data.total ?? quote.total) })}` +
+                (quote.items.length === 1 ? `\n\n${t("whatsapp.design", { url: data.designUrls[0] })}` : "");
+            if (cart.length > 0) {
+                clearCart();
+                setEditingCartId(null);
+            }
+            const waUrl = `https://wa.me/${WHATSAPP_NUMBER}?text=${encodeURIComponent(text)}`;
+            if (waWindow) waWindow.location.href = waUrl;
+            else window.location.href = waUrl;
+        } catch (err) {
+            waWindow?.close();
+            setOrderError(err instanceof Error ? err.message : t("order.failed"));
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleShare = async () => {
+        const url = buildShareUrl(state, catalog, window.location.origin);
+        try {
+            await navigator.clipboard.writeText(url);
+            setShareNotice(t("customizer.shareCopied"));
+        } catch {
+            // Clipboard API unavailable (e.g. insecure context) - let the user copy it manually
+            window.prompt(t("customizer.sharePrompt"), url);
+        }
+    };
+
+    // Print exports are rendered offscreen, independent of zoom and edit guides
+    const runExport = async (render: () => Promise<HTMLCanvasElement | Blob>, filename: string) => {
+        setIsExporting(true);
+        try {
+            const result = await render();
+            if (result instanceof Blob) downloadBlob(result, filename);
+            else downloadCanvas(result, filename);
+        } catch (err) {
+            console.error("Export failed", err);
+            setShareNotice(t("customizer.exportFailed"));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleExportImage = (options: PrintOptions) =>
+        runExport(() => renderPrint(state, catalog, loadImage, options), `ongoing-${productType.id}-${Math.min(options.dpi, maxPrintDpi(base))}dpi-${Date.now()}.png`);
+
+    const handleExportSheet = () =>
+        runExport(
+            () => renderProductionSheet(state, catalog, loadImage, {
+                orderId: lastOrderId,
+                customerName: orderForm.name,
+                quantity: editingItem?.quantity ?? orderForm.quantity,
+                printedAt: new Date().toLocaleString(INTL_LOCALES[locale]),
+            }, t),
+            `lembar-produksi-${lastOrderId ?? Date.now()}.png`,
+        );
+
+    const handleExportVector = (format: 'svg' | 'pdf') =>
+        runExport(async () => {
+            const layout = await buildVectorLayout(state, catalog, loadImage);
+            return format === 'svg' ? new Blob([renderSvg(layout)], { type: "image/svg+xml" }) : renderPdf(layout);
+        }, `ongoing-${productType.id}-${lastOrderId ?? Date.now()}.${format}`);
+
+    // Clean, guide-free render, small enough to keep localStorage happy
+    const renderThumbnail = async () => (await renderPrint(state, catalog, loadImage, { dpi: 72, transparent: false })).toDataURL("image/jpeg", 0.8);
+
+    // My Designs
+    const handleSaveDesign = async (name: string) => {
+        setIsSavingDesign(true);
+        setGalleryError(null);
+        try {
+            const thumbnail = await renderThumbnail();
+            if (!saveDesign(name, state, thumbnail)) setGalleryError(t("designs.storageFull"));
+            else announce(t("designs.saved", { name }));
+        } catch (err) {
+            console.error("Failed to save design", err);
+            setGalleryError(t("designs.saveFailed"));
+        } finally {
+            setIsSavingDesign(false);
+        }
+    };
+
+    const handleOpenDesign = (saved: SavedDesign) => {
+        const design = openDesign(saved, catalog);
+        if (!design) {
+            setGalleryError(t("designs.unavailable", { name: saved.name }));
+            return;
+        }
+        setGalleryError(null);
+        // Designs for another product open on that product's customizer
+        const designType = designProductType(design, catalog);
+        if (designType.id !== productType.id) {
+            router.push(`${customizerHref(designType.id)}?${SHARE_PARAM}=${saved.design}`);
+            return;
+        }
+        setState(design);
+        setSelectedId(null);
+        setEditingCartId(null);
+        announce(t("designs.opened", { name: saved.name }));
+    };
+
+    const handleDuplicateDesign = (id: string) => {
+        const saved = savedDesigns.find(d => d.id === id);
+        if (!saved) return;
+        setGalleryError(duplicateDesign(id, t("designs.copyName", { name: saved.name })) ? null : t("designs.storageFull"));
+    };
+
+    const handleDeleteDesign = (id: string) => {
+        const saved = savedDesigns.find(d => d.id === id);
+        showConfirm(t("confirm.deleteDesign.title"), t("confirm.deleteDesign.message", { name: saved?.name ?? t("designs.thisDesign") }), () => {
+            deleteDesign(id);
+        });
+    };
+
+    const handleReset = () => {
+        showConfirm(
+            t("confirm.reset.title"),
+            t("confirm.reset.message"),
+            () => {
+                setState(initialDesignFor(productType, catalog));
+                setIsEditing(true);
+                setEditingCartId(null);
+            }
+        );
+    };
+
+    // Cart
+    // Adds the canvas as a new design, or saves it back to the item being edited
+    const handleAddToCart = async () => {
+        setIsAddingToCart(true);
+        setCartError(null);
+        try {
+            const thumbnail = await renderThumbnail();
+            if (editingItem) {
+                if (!updateCartItem(editingItem.id, { design: encoded, thumbnail })) setCartError(t("designs.storageFull"));
+                else {
+                    setEditingCartId(null);
+                    announce(t("cart.updated", { number: cart.indexOf(editingItem) + 1 }));
+                }
+            } else if (cart.length >= MAX_ORDER_ITEMS) {
+                setCartError(t("cart.full", { max: MAX_ORDER_ITEMS }));
+            } else if (!addToCart(state, orderForm.quantity, thumbnail)) {
+                setCartError(t("designs.storageFull"));
+            } else {
+                announce(t("cart.added", { count: cart.length + 1 }));
+            }
+        } catch (err) {
+            console.error("Failed to add design to cart", err);
+            setCartError(t("cart.addFailed"));
+        } finally {
+            setIsAddingToCart(false);
+        }
+    };
+
+    const handleEditCartItem = (item: CartItem) => {
+        const design = decodeDesign(item.design, catalog);
+        if (!design) return;
+        setCartError(null);
+        // Designs for another product open on that product's customizer
+        const designType = designProductType(design, catalog);
+        if (designType.id !== productType.id) {
+            router.push(`${customizerHref(designType.id)}?${SHARE_PARAM}=${item.design}&${CART_PARAM}=${item.id}`);
+            return;
+        }
+        setState(design);
+        setSelectedId(null);
+        setEditingCartId(item.id);
+        announce(t("cart.opened", { number: cart.indexOf(item) + 1 }));
+    };
+
+    const handleRemoveCartItem = (item: CartItem) => {
+        showConfirm(t("confirm.removeCartItem.title"), t("confirm.removeCartItem.message", { number: cart.indexOf(item) + 1 }), () => {
+            removeFromCart(item.id);
+            if (item.id === editingCartId) setEditingCartId(null);
+        });
+    };
+
+    const handleCartQuantity = (id: string, quantity: number) => {
+        if (!updateCartItem(id, { quantity })) setCartError(t("designs.storageFull"));
+    };
+
+    return (
+        <div className="min-h-screen bg-gray-50 flex flex-col">
+            <Navbar />
+            <main className="flex-grow pt-24 pb-10 px-4 sm:px-6 lg:px-8 max-w-[1600px] mx-auto w-full h-full">
+                <h1 className="sr-only">{t("customizer.heading", { product: productType.name })}</h1>
+                {readOnly && (
+                    <div role="status" className="mb-6 flex items-center gap-2 bg-amber-50 border border-amber-200 text-sm text-amber-800 rounded-xl px-4 py-3">
+                        <Eye size={16} className="flex-shrink-0" /> {t("customizer.readOnly")}
+                    </div>
+                )}
+                {shareNotice && (
+                    <div className="mb-6 flex items-center justify-between gap-4 bg-white border border-brand-mint/30 text-sm text-gray-700 rounded-xl px-4 py-3 shadow-sm">
+                        <span>{shareNotice}</span>
+                        <button onClick={() => setShareNotice(null)} className="text-xs text-gray-400 hover:text-gray-600">{t("customizer.close")}</button>
+                    </div>
+                )}
+                <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 h-full items-start">
+
+                    {/* LEFT: BASE */}
+                    <div className="lg:col-span-3">
+                        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+                            <h2 className="text-2xl font-bold text-gray-900 mb-6 flex items-center gap-3">
+                                <span className="w-10 h-10 rounded-full bg-brand-yellow/20 flex items-center justify-center text-brand-yellow-dark text-lg">1</span>
+                                {t("customizer.chooseBase")}
+                            </h2>
+                            {catalog.productTypes.length > 1 && !readOnly && (
+                                <nav aria-label={t("customizer.productTypes")} className="flex flex-wrap gap-2 mb-6">
+                                    {catalog.productTypes.map((p) => (
+                                        <Link
+                                            key={p.id}
+                                            href={customizerHref(p.id)}
+                                            aria-current={p.id === productType.id ? "page" : undefined}
+                                            className={`px-3 py-1 text-xs font-semibold rounded-full border transition-colors ${p.id === productType.id ? 'bg-brand-mint border-brand-mint text-white' : 'bg-white border-gray-200 text-gray-600 hover:border-brand-mint/50'}`}
+                                        >
+                                            {p.name}
+                                        </Link>
+                                    ))}
+                                </nav>
+                            )}
+                            <fieldset disabled={readOnly} className="grid grid-cols-2 gap-4 disabled:opacity-60">
+                                {bases.map((base) => {
+                                    const soldOut = availability(base) === 'soldOut';
+                                    return (
+                                        <button
+                                            key={base.id}
+                                            onClick={() => selectBase(base.id)}
+                                            disabled={soldOut}
+                                            className={`relative aspect-square rounded-xl border-2 transition-all overflow-hidden bg-gray-50 disabled:cursor-not-allowed ${state.baseId === base.id ? 'border-brand-mint ring-4 ring-brand-mint/10' : 'border-transparent hover:border-brand-mint/50'}`}
+                                        >
+                                            <Image
+                                                src={thumbnailSrc(base)}
+                                                alt={soldOut ? t("stock.soldOutLabel", { name: base.name }) : base.name}
+                                                fill
+                                                className={`object-contain p-2 ${soldOut ? 'opacity-40 grayscale' : ''}`}
+                                            />
+                                            {soldOut && <SoldOutBadge />}
+                                        </button>
+                                    );
+                                })}
+                            </fieldset>
+                        </div>
+                    </div>
+
+                    {/* MIDDLE: CANVAS */}
+                    <div className="lg:col-span-5 flex flex-col lg:sticky lg:top-28">
+                        {/* Mode Toggles */}
+                        <fieldset disabled={readOnly} className="flex gap-2 mb-4 disabled:opacity-60">
+                            {/* Fixed vs Manual */}
+                            <div className="bg-white p-1 rounded-xl shadow-sm border border-gray-200 flex flex-1">
+                                <button
+                                    onClick={() => switchMode('fixed')}
+                                    className={`flex-1 py-2 text-sm font-semibold rounded-lg transition-all ${state.mode === 'fixed' ? 'bg-brand-mint text-white shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+                                >
+                                    {t("customizer.modeFixed")}
+                                </button>
+                                <button
+                                    onClick={() => switchMode('manual')}
+                                    className={`flex-1 py-2 text-sm font-semibold rounded-lg transition-all ${state.mode === 'manual' ? 'bg-brand-mint text-white shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+                                >
+                                    {t("customizer.modeManual")}
+                                </button>
+                            </div>
+                            {/* Undo / Redo */}
+                            <div className="bg-white p-1 rounded-xl shadow-sm border border-gray-200 flex">
+                                <button
+                                    onClick={undo}
+                                    disabled={!canUndo}
+                                    title={`${t("customizer.undo")} (Ctrl+Z)`}
+                                    aria-label={t("customizer.undo")}
+                                    className="px-3 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors"
+                                >
+                                    <Undo2 size={18} />
+                                </button>
+                                <button
+                                    onClick={redo}
+                                    disabled={!canRedo}
+                                    title={`${t("customizer.redo")} (Ctrl+Shift+Z)`}
+                                    aria-label={t("customizer.redo")}
+                                    className="px-3 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-transparent transition-colors"
+                                >
+                                    <Redo2 size={18} />
+                                </button>
+                            </div>
+                        </fieldset>
+
+                        {/* Editor Toolbar (Manual Only) */}
+                        {state.mode === 'manual' && !readOnly && (
+                            <div className="flex justify-between items-center mb-4 px-2">
+                                <div className="flex items-center gap-2 bg-white rounded-lg p-1 border border-gray-200 shadow-sm">
+                                    <button
+                                        onClick={() => setIsEditing(true)}
+                                        className={`px-3 py-1.5 text-xs font-semibold rounded-md flex items-center gap-1 transition-colors ${isEditing ? 'bg-brand-yellow text-brand-dark' : 'text-gray-500 hover:text-gray-900'}`}
+                                    >
+                                        <Edit size={14} /> {t("customizer.editor")}
+                                    </button>
+                                    <button
+                                        onClick={() => setIsEditing(false)}
+                                        className={`px-3 py-1.5 text-xs font-semibold rounded-md flex items-center gap-1 transition-colors ${!isEditing ? 'bg-gray-800 text-white' : 'text-gray-500 hover:text-gray-900'}`}
+                                    >
+                                        <Eye size={14} /> {t("customizer.preview")}
+                                    </button>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                    {isEditing && (
+                                        <button
+                                            onClick={() => setShowGrid(g => !g)}
+                                            aria-pressed={showGrid}
+                                            className={`px-3 py-1.5 text-xs font-semibold rounded-md flex items-center gap-1 border transition-colors ${showGrid ? 'bg-brand-mint text-white border-brand-mint' : 'bg-white text-gray-500 border-gray-200 hover:text-gray-900'}`}
+                                        >
+                                            <Grid3x3 size={14} /> {t("customizer.grid")}
+                                        </button>
+                                    )}
+                                    {isEditing && <span className="text-xs text-brand-mint font-medium animate-pulse">{t("customizer.editingActive")}</span>}
+                                </div>
+                            </div>
+                        )}
+
+                        <div
+                            className="flex-grow bg-white rounded-3xl shadow-lg border border-gray-100 relative overflow-hidden flex items-center justify-center min-h-[400px] group"
+                            onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); }}
+                            onDrop={handleDrop}
+                            onWheel={(e) => e.preventDefault()}
+                            style={{ touchAction: 'none', aspectRatio: `1 / ${layout.aspect}` }}
+                        >
+                            <div className={`absolute inset-0 pointer-events-none transition-opacity duration-300 ${isEditing ? 'opacity-5' : 'opacity-0'}`} style={{ backgroundImage: 'radial-gradient(#10B981 1px, transparent 1px)', backgroundSize: '20px 20px' }} />
+
+                            <canvas
+                                ref={canvasRef}
+                                width={CANVAS_SIZE}
+                                height={CANVAS_HEIGHT}
+                                className="w-full h-full object-contain focus:outline-none focus-visible:ring-4 focus-visible:ring-inset focus-visible:ring-brand-mint/40 rounded-3xl"
+                                style={{ touchAction: 'none', cursor: cursor }}
+                                tabIndex={0}
+                                role="application"
+                                aria-roledescription={t("customizer.canvasRole", { product: productType.name })}
+                                aria-label={state.mode !== 'manual'
+                                    ? t("customizer.canvasLabel")
+                                    : selectedItem
+                                        ? t("customizer.canvasLabelSelected", { count: state.manualItems.length, name: itemName(selectedItem, catalog, t) })
+                                        : t("customizer.canvasLabelManual", { count: state.manualItems.length })}
+                                aria-describedby="canvas-help"
+                                onKeyDown={handleCanvasKeyDown}
+                                onPointerDown={handlePointerDown}
+                                onPointerMove={handlePointerMove}
+                                onPointerUp={handlePointerUp}
+                                onPointerLeave={handlePointerUp}
+                            />
+
+                            {/* Zoom Buttons */}
+                            <div className="absolute bottom-6 right-6 flex gap-2 pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity">
+                                <div className="pointer-events-auto flex gap-2">
+                                    <button onClick={() => setState(s => ({ ...s, zoom: Math.min(s.zoom + 0.1, 2) }), { record: false })} aria-label={t("customizer.zoomIn")} className="bg-white p-2.5 rounded-full shadow-lg border border-gray-100 text-gray-700">
+                                        <ZoomIn size={20} />
+                                    </button>
+                                    <button onClick={() => setState(s => ({ ...s, zoom: Math.max(s.zoom - 0.1, 0.4) }), { record: false })} aria-label={t("customizer.zoomOut")} className="bg-white p-2.5 rounded-full shadow-lg border border-gray-100 text-gray-700">
+                                        <ZoomOut size={20} />
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                        <div id="canvas-help" className="mt-4 text-center text-gray-400 text-sm">
+                            {state.mode === 'manual'
+                                ? (isEditing ? t("customizer.helpManual") : t("customizer.helpPreview"))
+                                : t("customizer.helpFixed")}
+                        </div>
+                        {outOfBoundsItems.length > 0 && (
+                            <div role="alert" className="mt-3 flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-xl px-4 py-3">
+                                <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                                <span>{t("customizer.outOfBounds", { count: outOfBoundsItems.length })}</span>
+                            </div>
+                        )}
+                        {lowResolutionItems.length > 0 && (
+                            <div role="alert" className="mt-3 flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-xl px-4 py-3">
+                                <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                                <span>{t("customizer.lowResolution", { count: lowResolutionItems.length, dpi: MIN_PRINT_DPI })}</span>
+                            </div>
+                        )}
+                        {missingUploadItems.length > 0 && (
+                            <div role="alert" className="mt-3 flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 text-sm rounded-xl px-4 py-3">
+                                <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+                                <span>{t("customizer.uploadMissing", { count: missingUploadItems.length })}</span>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* RIGHT: CHARMS */}
+                    <div className="lg:col-span-4 flex flex-col gap-6">
+                        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+                            <h2 className="text-2xl font-bold text-gray-900 mb-6 flex items-center gap-3">
+                                <span className="w-10 h-10 rounded-full bg-brand-pink/20 flex items-center justify-center text-brand-pink-dark text-lg">2</span>
+                                {t("customizer.chooseCharms")}
+                            </h2>
+
+                            <fieldset disabled={readOnly}>
+                                <CharmFilterBar filter={charmFilter} hasRecent={recentCharmIds.length > 0} onChange={setCharmFilter} />
+                                {refusal && (
+                                    <p role="alert" className="flex gap-2 mb-4 p-3 rounded-xl bg-amber-50 border border-amber-200 text-xs text-amber-800">
+                                        <AlertTriangle size={16} className="flex-shrink-0" /> {refusal}
+                                    </p>
+                                )}
+
+                                {state.mode === 'fixed' ? (
+                                    <>
+                                        {base.slots.map((slot) => (
+                                            <SlotControl
+                                                key={slot.id}
+                                                label={slot.label}
+                                                isSelected={!!state.slots[slot.id]}
+                                                onClear={() => setSlot(slot, null)}
+                                            >
+                                                <CharmList
+                                                    slotLabel={slot.label}
+                                                    charms={visibleCharms}
+                                                    refusal={(charm) => refusalFor(slot, charm)}
+                                                    selectedId={state.slots[slot.id] ?? null}
+                                                    onSelect={(id) => setSlot(slot, id)}
+                                                />
+                                            </SlotControl>
+                                        ))}
+                                        {base.text?.slot && (
+                                            <SlotControl
+                                                label={t("text.slot")}
+                                                isSelected={!!state.slotText?.text}
+                                                onClear={() => setState(s => ({ ...s, slotText: null }))}
+                                            >
+                                                <TextControls
+                                                    style={state.slotText ?? DEFAULT_TEXT_STYLE}
+                                                    maxLength={base.text.maxLength}
+                                                    onChange={setSlotText}
+                                                    onEditStart={beginGesture}
+                                                    onEditEnd={endGesture}
+                                                />
+                                            </SlotControl>
+                                        )}
+                                    </>
+                                ) : (
+                                    <div>
+                                        <div className={`transition-opacity ${!isEditing ? 'opacity-50 pointer-events-none' : ''}`}>
+                                            <p className="text-sm text-gray-500 mb-4 px-1">{t("customizer.dragHint")}</p>
+                                            {visibleCharms.length === 0 && <p className="text-sm text-gray-400 py-4 text-center">{t("charms.noResults")}</p>}
+                                            <div className="grid grid-cols-4 gap-2">
+                                                {visibleCharms.map((charm) => {
+                                                    const soldOut = availability(charm) === 'soldOut';
+                                                    const refused = refusalFor(null, charm);
+                                                    return (
+                                                        <button
+                                                            key={charm.id}
+                                                            type="button"
+                                                            disabled={soldOut}
+                                                            draggable={isEditing && !soldOut}
+                                                            onDragStart={(e) => handleDragStart(e, charm.id)}
+                                                            aria-label={soldOut
+                                                                ? t("stock.soldOutLabel", { name: charm.name })
+                                                                : refused ? t("compat.notForBase", { name: charm.name }) : t("customizer.addToCanvas", { name: charm.name })}
+                                                            title={refused ?? charm.name}
+                                                            className="group flex flex-col items-stretch gap-1 cursor-move disabled:cursor-not-allowed focus-visible:outline-none"
+                                                            onClick={() => {
+                                                                if (isEditing) addManualItem(charm.id, canvasCenter.x, canvasCenter.y);
+                                                            }}
+                                                        >
+                                                            <span className="relative aspect-square bg-gray-50 rounded-lg border border-gray-200 group-enabled:group-hover:border-brand-mint group-focus-visible:ring-2 group-focus-visible:ring-brand-mint overflow-hidden">
+                                                                <Image src={thumbnailSrc(charm)} alt="" fill sizes="80px" loading="lazy" className={`object-contain p-1 ${soldOut ? 'opacity-40 grayscale' : refused ? 'opacity-40' : ''}`} />
+                                                                {soldOut && <SoldOutBadge />}
+                                                            </span>
+                                                            <span className="text-[10px] leading-tight text-gray-500 truncate">{charm.name}</span>
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                            {base.text && (
+                                                <button
+                                                    type="button"
+                                                    onClick={addTextItem}
+                                                    className="mt-3 w-full flex items-center justify-center gap-2 py-2 text-sm font-semibold rounded-lg border border-dashed border-gray-300 text-gray-600 hover:border-brand-mint hover:text-brand-mint transition-colors"
+                                                >
+                                                    <Type size={16} /> {t("text.add")}
+                                                </button>
+                                            )}
+                                            <UploadPanel disabled={!isEditing} onAdd={addUploadItem} />
+                                            {selectedItem?.type === 'text' && base.text && (
+                                                <fieldset disabled={!!selectedItem.locked} className="mt-4 p-4 bg-gray-50 rounded-xl border border-gray-100 disabled:opacity-50">
+                                                    <TextControls
+                                                        style={selectedItem}
+                                                        maxLength={base.text.maxLength}
+                                                        onChange={(patch) => updateText(selectedItem.id, patch)}
+                                                        onEditStart={beginGesture}
+                                                        onEditEnd={endGesture}
+                                                    />
+                                                </fieldset>
+                                            )}
+                                            {selectedItem && (
+                                                <ItemTransformControls
+                                                    item={selectedItem}
+                                                    disabled={!!selectedItem.locked}
+                                                    onChange={(patch) => updateItem(selectedItem.id, patch)}
+                                                    onEditStart={beginGesture}
+                                                    onEditEnd={endGesture}
+                                                />
+                                            )}
+                                            <LayersPanel
+                                                items={state.manualItems}
+                                                selectedId={selectedId}
+                                                onSelect={(id) => {
+                                                    const item = state.manualItems.find(i => i.id === id);
+                                                    if (item) selectItem(item);
+                                                }}
+                                                onMove={moveLayer}
+                                                onDuplicate={duplicateItem}
+                                                onRemove={removeItem}
+                                                onToggleLock={toggleLock}
+                                            />
+                                            {state.manualItems.length > 0 && (
+                                                <button
+                                                    onClick={() => setState(s => ({ ...s, manualItems: [] }))}
+                                                    className="mt-4 w-full py-2 text-sm text-red-500 hover:bg-red-50 rounded-lg"
+                                                >
+                                                    {t("customizer.clearCharms")}
+                                                </button>
+                                            )}
+                                        </div>
+                                        {!isEditing && !readOnly && <p className="text-xs text-center text-red-500 mt-2">{t("customizer.switchToEditor")}</p>}
+                                    </div>
+                                )}
+                            </fieldset>
+                        </div>
+
+                        {/* SUMMARY */}
+                        <div className="bg-white rounded-2xl p-6 shadow-lg border border-brand-mint/20 relative overflow-hidden">
+                            <h3 className="text-2xl font-bold text-gray-900 mb-6 flex items-center gap-3">
+                                <span className="w-10 h-10 rounded-full bg-brand-mint/20 flex items-center justify-center text-brand-mint-dark text-lg">3</span>
+                                {t("customizer.summary")}
+                            </h3>
+                            <div className="mb-6 bg-gray-50 rounded-xl p-4 border border-gray-100">
+                                <div className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wider">{t("customizer.previewResult")}</div>
+                                <div className="relative w-full aspect-square bg-white rounded-lg border border-gray-200 overflow-hidden">
+                                    {previewUrl ? (
+                                        <Image src={previewUrl} alt={t("customizer.previewResult")} fill className="object-contain" />
+                                    ) : (
+                                        <div className="flex items-center justify-center h-full text-gray-300">{t("customizer.loading")}</div>
+                                    )}
+                                </div>
+                            </div>
+                            {!readOnly && (
+                                <>
+                                    <div className="mb-6">
+                                        <div className="flex gap-3">
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={MAX_QUANTITY}
+                                                value={editingItem ? editingItem.quantity : orderForm.quantity}
+                                                onChange={(e) => {
+                                                    const quantity = Math.min(Math.max(parseInt(e.target.value) || 1, 1), MAX_QUANTITY);
+                                                    if (editingItem) handleCartQuantity(editingItem.id, quantity);
+                                                    else setOrderForm(f => ({ ...f, quantity }));
+                                                }}
+                                                aria-label={t("order.quantity")}
+                                                className="w-20 px-3 py-2.5 text-sm rounded-xl border border-gray-200 focus:border-brand-mint focus:outline-none"
+                                            />
+                                            <button
+                                                type="button"
+                                                onClick={handleAddToCart}
+                                                disabled={isAddingToCart}
+                                                className="flex-1 flex items-center justify-center gap-2 bg-brand-mint/10 hover:bg-brand-mint/20 disabled:opacity-60 text-brand-mint-dark font-semibold py-2.5 rounded-xl transition-colors text-sm"
+                                            >
+                                                <ShoppingBag size={16} /> {editingItem ? t("cart.update", { number: cart.indexOf(editingItem) + 1 }) : t("cart.add")}
+                                            </button>
+                                        </div>
+                                        {editingItem ? (
+                                            <p className="mt-2 text-xs text-gray-500">
+                                                {editingItem.design === encoded ? t("cart.editingHint") : t("cart.unsaved")}{" "}
+                                                <button type="button" onClick={() => setEditingCartId(null)} className="font-semibold text-brand-mint hover:text-emerald-600">
+                                                    {t("cart.stopEditing")}
+                                                </button>
+                                            </p>
+                                        ) : cart.length === 0 ? (
+                                            <p className="mt-2 text-xs text-gray-500">{t("cart.hint")}</p>
+                                        ) : !cart.some(item => item.design === encoded) && (
+                                            <p className="mt-2 text-xs text-gray-500">{t("cart.notInCart")}</p>
+                                        )}
+                                        {cartError && <p className="mt-2 text-xs text-red-500">{cartError}</p>}
+                                    </div>
+                                    {cart.length > 0 && (
+                                        <CartPanel
+                                            items={cart}
+                                            editingId={editingItem?.id ?? null}
+                                            onQuantityChange={handleCartQuantity}
+                                            onEdit={handleEditCartItem}
+                                            onRemove={handleRemoveCartItem}
+                                        />
+                                    )}
+                                    <div className="space-y-3 mb-6">
+                                        <input
+                                            type="text"
+                                            value={orderForm.name}
+                                            onChange={(e) => setOrderForm(f => ({ ...f, name: e.target.value }))}
+                                            placeholder={t("order.name")}
+                                            aria-label={t("order.name")}
+                                            maxLength={100}
+                                            className="w-full px-4 py-2.5 text-sm rounded-xl border border-gray-200 focus:border-brand-mint focus:outline-none"
+                                        />
+                                        <input
+                                            type="text"
+                                            value={orderForm.contact}
+                                            onChange={(e) => setOrderForm(f => ({ ...f, contact: e.target.value }))}
+                                            placeholder={t("order.contactPlaceholder")}
+                                            aria-label={t("order.contact")}
+                                            maxLength={100}
+                                            className="w-full px-4 py-2.5 text-sm rounded-xl border border-gray-200 focus:border-brand-mint focus:outline-none"
+                                        />
+                                        {orderError && <p className="text-xs text-red-500">{orderError}</p>}
+                                    </div>
+                                    <PriceSummary
+                                        quote={quote}
+                                        addOns={catalog.pricing.addOns}
+                                        selectedAddOns={orderForm.addOns}
+                                        onToggleAddOn={(id) => setOrderForm(f => ({
+                                            ...f,
+                                            addOns: f.addOns.includes(id) ? f.addOns.filter(a => a !== id) : [...f.addOns, id],
+                                        }))}
+                                    />
+                                </>
+                            )}
+                            <div className="space-y-3">
+                                {!readOnly && issues.length > 0 && (
+                                    <div role="status" className="flex gap-2 p-3 rounded-xl bg-amber-50 border border-amber-200 text-xs text-amber-800">
+                                        <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                                        <div className="space-y-1">
+                                            <p className="font-semibold">{t("stock.issuesTitle")}</p>
+                                            <ul>
+                                                {issues.map((issue) => (
+                                                    <li key={issue}>{issue}</li>
+                                                ))}
+                                            </ul>
+                                            <p>{t("stock.issuesHint")}</p>
+                                        </div>
+                                    </div>
+                                )}
+                                {!readOnly && (
+                                    <button
+                                        onClick={handleWhatsApp}
+                                        disabled={isSubmitting || issues.length > 0}
+                                        className="w-full flex items-center justify-center gap-2 bg-green-500 hover:bg-green-600 disabled:opacity-60 disabled:hover:translate-y-0 text-white font-bold py-3.5 rounded-xl shadow-lg transition-all hover:-translate-y-0.5"
+                                    >
+                                        <MessageCircle size={20} /> {isSubmitting ? t("order.sending") : cart.length > 0 ? t("order.whatsappCart", { count: cart.length }) : t("order.whatsapp")}
+                                    </button>
+                                )}
+                                <button onClick={handleShare} className="w-full flex items-center justify-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-semibold py-3 rounded-xl transition-colors text-sm">
+                                    <Link2 size={16} /> {t("customizer.share")}
+                                </button>
+                                <ExportPanel busy={isExporting} maxDpi={maxPrintDpi(base)} onExportImage={handleExportImage} onExportSheet={handleExportSheet} onExportVector={handleExportVector} />
+                                {!readOnly && (
+                                    <>
+                                        <button
+                                            onClick={handleReset}
+                                            className="w-full flex items-center justify-center gap-2 bg-gray-100 hover:bg-red-50 text-gray-700 hover:text-red-600 font-semibold py-3 rounded-xl transition-colors text-sm"
+                                        >
+                                            <RefreshCw size={16} />
+                                            {t("customizer.reset")}
+                                        </button>
+                                        <p className="text-xs text-center text-gray-400 mt-2">{t("order.attachmentNote")}</p>
+                                    </>
+                                )}
+                            </div>
+                        </div>
+
+                        {!readOnly && (
+                            <MyDesignsPanel
+                                designs={savedDesigns}
+                                busy={isSavingDesign}
+                                error={galleryError}
+                                onSave={handleSaveDesign}
+                                onOpen={handleOpenDesign}
+                                onDuplicate={handleDuplicateDesign}
+                                onDelete={handleDeleteDesign}
+                            />
+                        )}
+                    </div>
+                </div>
+            </main>
+
+            {/* Screen reader announcements */}
+            <div aria-live="polite" aria-atomic="true" className="sr-only">
+                {announcement.text}{announcement.count % 2 ? "\u00A0" : ""}
+            </div>
+
+            {/* Custom Confirmation Modal */}
+            {confirmModal.isOpen && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="bg-white rounded-2xl p-6 max-w-sm w-full shadow-2xl scale-100 animate-in zoom-in-95 duration-200">
+                        <h3 className="text-xl font-bold text-gray-900 mb-2">{confirmModal.title}</h3>
+                        <p className="text-gray-600 mb-6">{confirmModal.message}</p>
+                        <div className="flex gap-3 justify-end">
+                            <button
+                                onClick={closeConfirm}
+                                className="px-4 py-2 text-gray-600 font-medium hover:bg-gray-100 rounded-lg transition-colors"
+                            >
+                                {t("confirm.cancel")}
+                            </button>
+                            <button
+                                onClick={() => {
+                                    confirmModal.onConfirm();
+                                    closeConfirm();
+                                }}
+                                className="px-4 py-2 bg-brand-mint text-white font-bold rounded-lg hover:bg-emerald-600 transition-colors shadow-lg shadow-emerald-500/30"
+                            >
+                                {t("confirm.ok")}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// Subcomponents
+function SlotControl({ label, isSelected, onClear, children }: { label: string, isSelected: boolean, onClear: () => void, children: React.ReactNode }) {
+    const t = useT();
+    return (
+        <div className="mb-6">
+            <div className="flex justify-between items-center mb-2">
+                <span className="text-sm font-semibold text-gray-700">{label}</span>
+                {isSelected && <button onClick={onClear} aria-label={t("slot.clearLabel", { slot: label })} className="text-xs text-red-500 hover:text-red-600">{t("slot.clear")}</button>}
+            </div>
+            {children}
+        </div>
+    );
+}
+
+// Typing into a field is one gesture, so a whole edit undoes in one step
+function ItemTransformControls({ item, disabled, onChange, onEditStart, onEditEnd }: { item: DesignItem, disabled: boolean, onChange: (patch: Partial<ItemTransform>) => void, onEditStart: () => void, onEditEnd: () => void }) {
+    const t = useT();
+    const inputClass = "w-full mt-1 px-3 py-2 text-sm rounded-lg border border-gray-200 focus:border-brand-mint focus:outline-none";
+    return (
+        <div className="mt-4 p-4 bg-gray-50 rounded-xl border border-gray-100">
+            <div className="text-xs font-semibold text-gray-500 mb-3 uppercase tracking-wider">{t("transform.title")}{disabled && t("transform.locked")}</div>
+            <fieldset disabled={disabled} className="disabled:opacity-50">
+                <div className="grid grid-cols-2 gap-3">
+                    <label className="text-xs text-gray-600">
+                        {t("transform.size")}
+                        <input
+                            type="number"
+                            min={Math.round(MIN_SCALE * 100)}
+                            max={Math.round(MAX_SCALE * 100)}
+                            step={1}
+                            value={Math.round(item.z * 100)}
+                            onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                if (!isNaN(value)) onChange({ z: clampScale(value / 100) });
+                            }}
+                            onFocus={onEditStart}
+                            onBlur={onEditEnd}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="text-xs text-gray-600">
+                        {t("transform.rotation")}
+                        <input
+                            type="number"
+                            min={-180}
+                            max={180}
+                            step={1}
+                            value={Math.round(item.rotation)}
+                            onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                if (!isNaN(value)) onChange({ rotation: normalizeRotation(value) });
+                            }}
+                            onFocus={onEditStart}
+                            onBlur={onEditEnd}
+                            className={inputClass}
+                        />
+                    </label>
+                </div>
+                <button
+                    onClick={() => onChange({ flipX: !item.flipX })}
+                    className={`mt-3 w-full flex items-center justify-center gap-2 py-2 text-sm font-semibold rounded-lg border transition-colors ${item.flipX ? 'bg-brand-mint text-white border-brand-mint' : 'bg-white text-gray-700 border-gray-200 hover:border-brand-mint'}`}
+                >
+                    <FlipHorizontal2 size={16} /> {t("transform.flip")}
+                </button>
+            </fieldset>
+        </div>
+    );
+}
+
+// Charms the slot doesn't allow stay pickable so picking one says why
+function CharmList({ slotLabel, charms, refusal, selectedId, onSelect }: { slotLabel: string, charms: Charm[], refusal: (charm: Charm) => string | null, selectedId: string | null, onSelect: (id: string) => void }) {
+    const t = useT();
+    if (charms.length === 0) return <p className="text-sm text-gray-400 pb-4">{t("charms.noResults")}</p>;
+    return (
+        <div role="group" aria-label={t("slot.charms", { slot: slotLabel })} className="flex gap-3 overflow-x-auto pb-4 snap-x scrollbar-thin scrollbar-thumb-gray-200 scrollbar-track-transparent">
+            {charms.map((charm) => {
+                const soldOut = availability(charm) === 'soldOut';
+                const refused = refusal(charm);
+                return (
+                    <button
+                        key={charm.id}
+                        onClick={() => onSelect(charm.id)}
+                        disabled={soldOut}
+                        aria-label={soldOut ? t("stock.soldOutLabel", { name: charm.name }) : refused ? t("compat.notForBase", { name: charm.name }) : charm.name}
+                        title={refused ?? charm.name}
+                        aria-pressed={selectedId === charm.id}
+                        className="flex-shrink-0 w-16 flex flex-col gap-1 snap-start disabled:cursor-not-allowed"
+                    >
+                        <span className={`w-16 h-16 rounded-xl border-2 overflow-hidden bg-white relative transition-all ${selectedId === charm.id ? 'border-brand-mint ring-2 ring-brand-mint/20' : soldOut ? 'border-gray-200' : 'border-gray-200 hover:border-brand-mint/50'}`}>
+                            <Image src={thumbnailSrc(charm)} alt="" fill sizes="64px" loading="lazy" className={`object-contain p-1 ${soldOut ? 'opacity-40 grayscale' : refused ? 'opacity-40' : ''}`} />
+                            {selectedId === charm.id && <span className="absolute inset-0 bg-brand-mint/10 flex items-center justify-center"><Check size={12} className="text-brand-mint bg-white rounded-full p-0.5" /></span>}
+                            {soldOut && <SoldOutBadge />}
+                        </span>
+                        <span className="text-[10px] leading-tight text-gray-500 truncate">{charm.name}</span>
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
+
+function SoldOutBadge() {
+    const t = useT();
+    return (
+        <span className="absolute inset-x-0 bottom-1 flex justify-center pointer-events-none">
+            <span className="px-1.5 py-0.5 rounded-full bg-gray-900/70 text-[9px] font-bold uppercase tracking-wide text-white">{t("stock.soldOut")}</span>
+        </span>
+    );
+}
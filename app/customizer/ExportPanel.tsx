@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { Download, FileText, PenTool } from "lucide-react";
+import { EXPORT_DPIS, PrintOptions } from "../lib/printExport";
+import { useT } from "../components/LocaleProvider";
+
+type ExportPanelProps = {
+    busy: boolean;
+    maxDpi: number; // See maxPrintDpi: larger bases can't be rendered at every resolution
+    onExportImage: (options: PrintOptions) => void;
+    onExportSheet: () => void;
+    onExportVector: (format: 'svg' | 'pdf') => void;
+};
+
+// Print export options: resolution and background for the PNG, the workshop
+// production sheet, and SVG/PDF layouts (in mm, with cut lines) for the shop.
+export default function ExportPanel({ busy, maxDpi, onExportImage, onExportSheet, onExportVector }: ExportPanelProps) {
+    const t = useT();
+    const [dpi, setDpi] = useState(300);
+    const [transparent, setTransparent] = useState(true);
+
+    return (
+        <div className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+            <div className="text-xs font-semibold text-gray-500 mb-3 uppercase tracking-wider">{t("export.title")}</div>
+            <div className="flex items-center gap-3 mb-3">
+                <label className="text-xs text-gray-600 flex items-center gap-2">
+                    {t("export.resolution")}
+                    <select
+                        value={dpi}
+                        onChange={(e) => setDpi(parseInt(e.target.value))}
+                        className="px-2 py-1.5 text-sm rounded-lg border border-gray-200 bg-white focus:border-brand-mint focus:outline-none"
+                    >
+                        {EXPORT_DPIS.map((value) => (
+                            <option key={value} value={value}>{value} DPI</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="text-xs text-gray-600 flex items-center gap-2 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={transparent}
+                        onChange={(e) => setTransparent(e.target.checked)}
+                        className="accent-brand-mint"
+                    />
+                    {t("export.transparent")}
+                </label>
+            </div>
+            {dpi > maxDpi && <p className="-mt-1 mb-3 text-xs text-gray-500">{t("export.dpiCapped", { dpi: maxDpi })}</p>}
+            <div className="flex gap-2">
+                <button
+                    onClick={() => onExportImage({ dpi, transparent })}
+                    disabled={busy}
+                    className="flex-1 flex items-center justify-center gap-2 bg-white border border-gray-200 hover:border-brand-mint disabled:opacity-60 text-gray-700 font-semibold py-2.5 rounded-lg transition-colors text-sm"
+                >
+                    <Download size={16} /> PNG
+                </button>
+                <button
+                    onClick={onExportSheet}
+                    disabled={busy}
+                    className="flex-1 flex items-center justify-center gap-2 bg-white border border-gray-200 hover:border-brand-mint disabled:opacity-60 text-gray-700 font-semibold py-2.5 rounded-lg transition-colors text-sm"
+                >
+                    <FileText size={16} /> {t("export.sheet")}
+                </button>
+            </div>
+            <div className="flex gap-2 mt-2">
+                {(['svg', 'pdf'] as const).map((format) => (
+                    <button
+                        key={format}
+                        onClick={() => onExportVector(format)}
+                        disabled={busy}
+                        className="flex-1 flex items-center justify-center gap-2 bg-white border border-gray-200 hover:border-brand-mint disabled:opacity-60 text-gray-700 font-semibold py-2.5 rounded-lg transition-colors text-sm"
+                    >
+                        <PenTool size={16} /> {t("export.vector", { format: format.toUpperCase() })}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { getCharm, thumbnailSrc } from "../lib/catalog";
+import { DesignItem } from "../lib/design";
+import { getTextFont } from "../lib/text";
+import { uploadUrl } from "../lib/upload";
+import { Copy, GripVertical, Lock, Trash2, Type, Unlock } from "lucide-react";
+import { useCatalog } from "../components/CatalogProvider";
+import { useT } from "../components/LocaleProvider";
+
+type LayersPanelProps = {
+    items: DesignItem[];
+    selectedId: string | null;
+    onSelect: (id: string) => void;
+    onMove: (id: string, toIndex: number) => void;
+    onDuplicate: (id: string) => void;
+    onRemove: (id: string) => void;
+    onToggleLock: (id: string) => void;
+};
+
+// Layer list for manual mode. Shown top-most first, i.e. the reverse of
+// `manualItems`, which is drawn in array order.
+export default function LayersPanel({ items, selectedId, onSelect, onMove, onDuplicate, onRemove, onToggleLock }: LayersPanelProps) {
+    const t = useT();
+    const catalog = useCatalog();
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+    if (items.length === 0) return null;
+
+    // Row position (top-most first) <-> index in manualItems
+    const toItemIndex = (row: number) => items.length - 1 - row;
+    const rows = [...items].reverse();
+
+    const handleDrop = (e: React.DragEvent, row: number) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const id = e.dataTransfer.getData("layerId");
+        if (id) onMove(id, toItemIndex(row));
+        setDraggingId(null);
+        setDropIndex(null);
+    };
+
+    return (
+        <div className="mt-6">
+            <div className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wider">{t("layers.title")}</div>
+            <ul className="space-y-1" role="listbox" aria-label={t("layers.title")}>
+                {rows.map((item, row) => {
+                    const isSelected = item.id === selectedId;
+                    const charm = item.type === 'charm' ? getCharm(catalog, item.charmId) : undefined;
+                    return (
+                        <li
+                            key={item.id}
+                            role="option"
+                            draggable
+                            onDragStart={(e) => {
+                                e.dataTransfer.setData("layerId", item.id);
+                                e.dataTransfer.effectAllowed = "move";
+                                setDraggingId(item.id);
+                            }}
+                            onDragOver={(e) => {
+                                e.preventDefault();
+                                setDropIndex(row);
+                            }}
+                            onDragEnd={() => {
+                                setDraggingId(null);
+                                setDropIndex(null);
+                            }}
+                            onDrop={(e) => handleDrop(e, row)}
+                            onClick={() => onSelect(item.id)}
+                            onKeyDown={(e) => {
+                                if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+                                    e.preventDefault();
+                                    onSelect(item.id);
+                                }
+                            }}
+                            tabIndex={0}
+                            aria-selected={isSelected}
+                            className={`flex items-center gap-2 p-1.5 rounded-lg border cursor-pointer transition-colors ${isSelected ? 'border-brand-mint bg-brand-mint/5' : 'border-transparent hover:bg-gray-50'} ${draggingId === item.id ? 'opacity-40' : ''} ${dropIndex === row && draggingId !== item.id ? 'ring-2 ring-brand-mint/30' : ''}`}
+                        >
+                            <GripVertical size={14} className="text-gray-300 flex-shrink-0 cursor-grab" />
+                            <div className="relative w-8 h-8 flex-shrink-0 bg-gray-50 rounded-md border border-gray-100">
+                                {charm && <Image src={thumbnailSrc(charm)} alt="" fill sizes="32px" className="object-contain p-0.5" />}
+                                {item.type === 'upload' && <Image src={uploadUrl(item.uploadId)} alt="" fill sizes="32px" unoptimized className="object-contain p-0.5" />}
+                                {item.type === 'text' && <Type size={16} className="absolute inset-0 m-auto" style={{ color: item.color }} />}
+                            </div>
+                            {item.type === 'text' ? (
+                                <span className="flex-1 text-sm text-gray-700 truncate" style={{ fontFamily: `var(${getTextFont(item.fontId)?.cssVar})` }}>{item.text}</span>
+                            ) : (
+                                <span className="flex-1 text-sm text-gray-700 truncate">{charm?.name ?? (item.type === 'upload' ? t("upload.itemName") : t("customizer.charm"))}</span>
+                            )}
+                            <LayerButton label={item.locked ? t("layers.unlock") : t("layers.lock")} onClick={() => onToggleLock(item.id)} active={item.locked}>
+                                {item.locked ? <Lock size={14} /> : <Unlock size={14} />}
+                            </LayerButton>
+                            <LayerButton label={t("layers.duplicate")} onClick={() => onDuplicate(item.id)}>
+                                <Copy size={14} />
+                            </LayerButton>
+                            <LayerButton label={t("layers.remove")} onClick={() => onRemove(item.id)} danger>
+                                <Trash2 size={14} />
+                            </LayerButton>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+}
+
+function LayerButton({ label, onClick, active, danger, children }: { label: string, onClick: () => void, active?: boolean, danger?: boolean, children: React.ReactNode }) {
+    return (
+        <button
+            type="button"
+            title={label}
+            aria-label={label}
+            onClick={(e) => {
+                e.stopPropagation();
+                onClick();
+            }}
+            className={`p-1.5 rounded-md transition-colors ${active ? 'text-brand-mint' : 'text-gray-400'} ${danger ? 'hover:text-red-500 hover:bg-red-50' : 'hover:text-gray-700 hover:bg-gray-100'}`}
+        >
+            {children}
+        </button>
+    );
+}
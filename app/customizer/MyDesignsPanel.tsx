@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { AlertTriangle, Copy, FolderOpen, Save, Trash2 } from "lucide-react";
+import { openDesign, SavedDesign } from "../lib/designStorage";
+import { INTL_LOCALES } from "../lib/i18n";
+import { sharedUploadIds } from "../lib/share";
+import { stockIssues } from "../lib/stock";
+import { useMissingUploads } from "../lib/useMissingUploads";
+import { useCatalog } from "../components/CatalogProvider";
+import { useLocale, useT } from "../components/LocaleProvider";
+
+type MyDesignsPanelProps = {
+    designs: SavedDesign[];
+    busy: boolean;
+    error: string | null;
+    onSave: (name: string) => void;
+    onOpen: (design: SavedDesign) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+};
+
+const MAX_NAME_LENGTH = 60;
+
+// "My designs": named designs saved in this browser, with thumbnails. Designs
+// using a part that has since sold out or been hidden, or an upload the server
+// no longer has, are flagged.
+export default function MyDesignsPanel({ designs, busy, error, onSave, onOpen, onDuplicate, onDelete }: MyDesignsPanelProps) {
+    const locale = useLocale();
+    const t = useT();
+    const catalog = useCatalog();
+    const [name, setName] = useState("");
+    const missingUploads = useMissingUploads(designs.flatMap(design => sharedUploadIds(design.design)));
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave(name.trim() || t("designs.defaultName", { number: designs.length + 1 }));
+        setName("");
+    };
+
+    return (
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100">
+            <h3 className="text-lg font-bold text-gray-900 mb-4">{t("designs.title")}</h3>
+            <form onSubmit={handleSubmit} className="flex gap-2 mb-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={t("designs.namePlaceholder")}
+                    aria-label={t("designs.namePlaceholder")}
+                    maxLength={MAX_NAME_LENGTH}
+                    className="flex-1 min-w-0 px-3 py-2 text-sm rounded-lg border border-gray-200 focus:border-brand-mint focus:outline-none"
+                />
+                <button
+                    type="submit"
+                    disabled={busy}
+                    className="flex items-center gap-1.5 px-3 py-2 text-sm font-semibold rounded-lg bg-brand-mint text-white hover:bg-emerald-500 disabled:opacity-60 transition-colors"
+                >
+                    <Save size={14} /> {t("designs.save")}
+                </button>
+            </form>
+            {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+            <p className="text-xs text-gray-400 mb-4">{t("designs.localOnly")}</p>
+
+            {designs.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-4">{t("designs.empty")}</p>
+            ) : (
+                <ul className="space-y-2">
+                    {designs.map((design) => {
+                        const decoded = openDesign(design, catalog);
+                        const unavailable = !!decoded && stockIssues([{ design: decoded, quantity: 1 }], catalog).length > 0;
+                        const uploadMissing = sharedUploadIds(design.design).some(id => missingUploads.has(id));
+                        return (
+                            <li key={design.id} className="flex items-center gap-3 p-2 rounded-xl border border-gray-100">
+                                <div className="relative w-12 h-12 flex-shrink-0 bg-gray-50 rounded-lg overflow-hidden">
+                                    <Image src={design.thumbnail} alt="" fill unoptimized className="object-contain" />
+                                </div>
+                                <div className="flex-1 min-w-0">
+                                    <div className="text-sm font-semibold text-gray-800 truncate">{design.name}</div>
+                                    <div className="text-xs text-gray-400">{new Date(design.updatedAt).toLocaleDateString(INTL_LOCALES[locale])}</div>
+                                    {unavailable && (
+                                        <div className="flex items-center gap-1 text-xs text-amber-600">
+                                            <AlertTriangle size={12} className="flex-shrink-0" /> <span className="truncate">{t("designs.hasUnavailable")}</span>
+                                        </div>
+                                    )}
+                                    {uploadMissing && (
+                                        <div className="flex items-center gap-1 text-xs text-amber-600">
+                                            <AlertTriangle size={12} className="flex-shrink-0" /> <span className="truncate">{t("designs.uploadMissing")}</span>
+                                        </div>
+                                    )}
+                                </div>
+                                <PanelButton label={t("designs.open", { name: design.name })} onClick={() => onOpen(design)}>
+                                    <FolderOpen size={14} />
+                                </PanelButton>
+                                <PanelButton label={t("designs.duplicate", { name: design.name })} onClick={() => onDuplicate(design.id)}>
+                                    <Copy size={14} />
+                                </PanelButton>
+                                <PanelButton label={t("designs.delete", { name: design.name })} onClick={() => onDelete(design.id)} danger>
+                                    <Trash2 size={14} />
+                                </PanelButton>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+// Small icon button for a list row; also used by the cart
+export function PanelButton({ label, onClick, danger, children }: { label: string, onClick: () => void, danger?: boolean, children: React.ReactNode }) {
+    return (
+        <button
+            type="button"
+            title={label}
+            aria-label={label}
+            onClick={onClick}
+            className={`p-1.5 rounded-md text-gray-400 transition-colors ${danger ? 'hover:text-red-500 hover:bg-red-50' : 'hover:text-gray-700 hover:bg-gray-100'}`}
+        >
+            {children}
+        </button>
+    );
+}
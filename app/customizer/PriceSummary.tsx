@@ -0,0 +1,88 @@
+"use client";
+
+import { AddOn } from "../lib/catalog";
+import { formatIDR, Quote } from "../lib/pricing";
+import { useT } from "../components/LocaleProvider";
+
+type PriceSummaryProps = {
+    quote: Quote;
+    addOns: AddOn[];
+    selectedAddOns: string[];
+    onToggleAddOn: (id: string) => void;
+};
+
+// Itemized price for the order panel: what one keychain costs (or, for a
+// cart of several designs, what each design comes to), then the quantity,
+// bulk discount and total. A cart whose designs all no longer fit the
+// catalog has nothing to price; the cart panel lists them for removal.
+export default function PriceSummary({ quote, addOns, selectedAddOns, onToggleAddOn }: PriceSummaryProps) {
+    const t = useT();
+    const [single] = quote.items;
+    const isCart = quote.items.length > 1;
+    return (
+        <div className="mb-6">
+            {addOns.length > 0 && (
+                <fieldset className="mb-4">
+                    <legend className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wider">{t("price.addOns")}</legend>
+                    <div className="space-y-1.5">
+                        {addOns.map((addOn) => (
+                            <label key={addOn.id} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={selectedAddOns.includes(addOn.id)}
+                                    onChange={() => onToggleAddOn(addOn.id)}
+                                    className="accent-brand-mint"
+                                />
+                                <span className="flex-1">{addOn.name}</span>
+                                <span className="text-gray-500">+{formatIDR(addOn.price)}</span>
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
+            )}
+
+            {quote.items.length === 0 ? (
+                <div className="bg-gray-50 rounded-xl p-4 border border-gray-100 text-sm text-gray-600">{t("price.nothingToOrder")}</div>
+            ) : (
+                <div className="bg-gray-50 rounded-xl p-4 border border-gray-100 text-sm">
+                    <div className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wider">{t(isCart ? "price.breakdownCart" : "price.breakdown")}</div>
+                    {isCart ? (
+                        <ul className="space-y-1 text-gray-600">
+                            {quote.items.map((item, idx) => (
+                                <li key={idx} className="flex justify-between gap-2">
+                                    <span className="truncate">{t("cart.item", { number: idx + 1 })}: {item.quantity} × {formatIDR(item.unitPrice)}</span>
+                                    <span>{formatIDR(item.subtotal)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <ul className="space-y-1 text-gray-600">
+                            {single.lines.map((line, idx) => (
+                                <li key={idx} className="flex justify-between gap-2">
+                                    <span className="truncate">{line.label}{line.count > 1 && ` ×${line.count}`}</span>
+                                    <span>{formatIDR(line.unitPrice * line.count)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                        <div className="flex justify-between text-gray-600">
+                            <span>{isCart ? t("price.subtotal", { count: quote.quantity }) : `${single.quantity} × ${formatIDR(single.unitPrice)}`}</span>
+                            <span>{formatIDR(quote.subtotal)}</span>
+                        </div>
+                        {quote.discount > 0 && (
+                            <div className="flex justify-between text-brand-mint">
+                                <span>{t("price.discount", { percent: quote.discountPercent })}</span>
+                                <span>-{formatIDR(quote.discount)}</span>
+                            </div>
+                        )}
+                        <div className="flex justify-between font-bold text-gray-900 text-base">
+                            <span>{t("price.total")}</span>
+                            <span>{formatIDR(quote.total)}</span>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
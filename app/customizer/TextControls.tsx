@@ -0,0 +1,97 @@
+"use client";
+
+import { cleanText, MAX_CURVE, TEXT_COLORS, TEXT_FONTS, TextStyle } from "../lib/text";
+import { useT } from "../components/LocaleProvider";
+
+type TextControlsProps = {
+    style: TextStyle;
+    maxLength: number;
+    onChange: (patch: Partial<TextStyle>) => void;
+    // One undo step per visit to the text field or colour picker, and per slider drag
+    onEditStart: () => void;
+    onEditEnd: () => void;
+};
+
+// Text, font, colour and curvature of a text item or the fixed-mode text slot.
+export default function TextControls({ style, maxLength, onChange, onEditStart, onEditEnd }: TextControlsProps) {
+    const t = useT();
+    const length = Array.from(style.text).length;
+
+    return (
+        <div className="space-y-3">
+            <label className="block text-xs text-gray-600">
+                <span className="flex justify-between">
+                    {t("text.label")}
+                    <span className={length >= maxLength ? "text-amber-600" : "text-gray-400"}>{length}/{maxLength}</span>
+                </span>
+                <input
+                    type="text"
+                    value={style.text}
+                    onChange={(e) => onChange({ text: cleanText(e.target.value, maxLength) })}
+                    onFocus={onEditStart}
+                    onBlur={onEditEnd}
+                    placeholder={t("text.placeholder")}
+                    className="w-full mt-1 px-3 py-2 text-sm rounded-lg border border-gray-200 focus:border-brand-mint focus:outline-none"
+                />
+            </label>
+
+            <div role="group" aria-label={t("text.font")} className="grid grid-cols-2 gap-2">
+                {TEXT_FONTS.map((font) => (
+                    <button
+                        key={font.id}
+                        type="button"
+                        onClick={() => onChange({ fontId: font.id })}
+                        aria-pressed={style.fontId === font.id}
+                        style={{ fontFamily: `var(${font.cssVar}), ${font.fallback}`, fontWeight: font.weight }}
+                        className={`px-2 py-1.5 text-sm rounded-lg border truncate transition-colors ${style.fontId === font.id ? 'border-brand-mint bg-brand-mint/5 text-gray-900' : 'border-gray-200 text-gray-600 hover:border-brand-mint/50'}`}
+                    >
+                        {font.name}
+                    </button>
+                ))}
+            </div>
+
+            <div role="group" aria-label={t("text.color")} className="flex items-center gap-2 flex-wrap">
+                {TEXT_COLORS.map((color) => (
+                    <button
+                        key={color}
+                        type="button"
+                        onClick={() => onChange({ color })}
+                        aria-label={color}
+                        aria-pressed={style.color.toLowerCase() === color.toLowerCase()}
+                        style={{ backgroundColor: color }}
+                        className={`w-7 h-7 rounded-full border-2 transition-transform ${style.color.toLowerCase() === color.toLowerCase() ? 'border-brand-mint scale-110' : 'border-gray-200'}`}
+                    />
+                ))}
+                <input
+                    type="color"
+                    value={style.color}
+                    onChange={(e) => onChange({ color: e.target.value.toUpperCase() })}
+                    onFocus={onEditStart}
+                    onBlur={onEditEnd}
+                    aria-label={t("text.customColor")}
+                    className="w-7 h-7 rounded-full cursor-pointer bg-transparent"
+                />
+            </div>
+
+            <label className="block text-xs text-gray-600">
+                {t("text.curve")} ({style.curve})
+                <input
+                    type="range"
+                    min={-MAX_CURVE}
+                    max={MAX_CURVE}
+                    step={5}
+                    value={style.curve}
+                    onChange={(e) => onChange({ curve: parseInt(e.target.value) })}
+                    onPointerDown={(e) => {
+                        // Captured, so the release reaches the slider even off it
+                        e.currentTarget.setPointerCapture(e.pointerId);
+                        onEditStart();
+                    }}
+                    onPointerUp={onEditEnd}
+                    onLostPointerCapture={onEditEnd}
+                    className="w-full mt-1 accent-brand-mint"
+                />
+            </label>
+        </div>
+    );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Image from "next/image";
+import { ImagePlus, Loader2, X } from "lucide-react";
+import { MessageKey } from "../lib/messages";
+import {
+    DEFAULT_UPLOAD_OPTIONS, MIN_UPLOAD_PX, processUpload, readImageFile, UPLOAD_TYPES, uploadImage, UploadOptions, UploadShape,
+} from "../lib/upload";
+import { useT } from "../components/LocaleProvider";
+
+type UploadPanelProps = {
+    disabled: boolean;
+    onAdd: (uploadId: string) => void;
+};
+
+const SHAPES: { id: UploadShape; label: MessageKey }[] = [
+    { id: 'circle', label: "upload.circle" },
+    { id: 'outline', label: "upload.outline" },
+];
+
+// Turns a customer's photo into a charm: pick a file, choose the cut and
+// optionally clear a plain background, check the preview, then upload it.
+export default function UploadPanel({ disabled, onAdd }: UploadPanelProps) {
+    const t = useT();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [img, setImg] = useState<HTMLImageElement | null>(null);
+    const [options, setOptions] = useState<UploadOptions>(DEFAULT_UPLOAD_OPTIONS);
+    const [result, setResult] = useState<{ canvas: HTMLCanvasElement; preview: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isUploading, setIsUploading] = useState(false);
+
+    // Re-process from the original on every change, so settings never stack
+    const apply = (source: HTMLImageElement, next: UploadOptions) => {
+        setOptions(next);
+        const processed = processUpload(source, next);
+        if (processed.ok) {
+            setResult({ canvas: processed.canvas, preview: processed.canvas.toDataURL("image/png") });
+            setError(null);
+        } else {
+            setResult(null);
+            setError(t(processed.error, { min: MIN_UPLOAD_PX }));
+        }
+    };
+
+    const reset = () => {
+        setImg(null);
+        setResult(null);
+        setError(null);
+        if (inputRef.current) inputRef.current.value = "";
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        const read = await readImageFile(file);
+        if (!read.ok) {
+            reset();
+            setError(t(read.error));
+            return;
+        }
+        setImg(read.img);
+        apply(read.img, options);
+    };
+
+    const handleAdd = async () => {
+        if (!result) return;
+        setIsUploading(true);
+        try {
+            onAdd(await uploadImage(result.canvas, t));
+            reset();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t("upload.failed"));
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    return (
+        <div className="mt-4 p-4 bg-gray-50 rounded-xl border border-gray-100">
+            <div className="flex items-center justify-between mb-2">
+                <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">{t("upload.title")}</div>
+                {img && (
+                    <button type="button" onClick={reset} aria-label={t("upload.cancel")} title={t("upload.cancel")} className="p-1 rounded-md text-gray-400 hover:text-gray-700 hover:bg-gray-100">
+                        <X size={14} />
+                    </button>
+                )}
+            </div>
+            <p className="text-xs text-gray-500 mb-3">{t("upload.hint", { min: MIN_UPLOAD_PX })}</p>
+            <input
+                ref={inputRef}
+                type="file"
+                accept={UPLOAD_TYPES.join(",")}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                disabled={disabled}
+                className="sr-only"
+                id="charm-upload"
+            />
+            {!img && (
+                <label
+                    htmlFor="charm-upload"
+                    className={`w-full flex items-center justify-center gap-2 py-2 text-sm font-semibold rounded-lg border border-dashed border-gray-300 text-gray-600 transition-colors ${disabled ? 'opacity-50' : 'cursor-pointer hover:border-brand-mint hover:text-brand-mint'}`}
+                >
+                    <ImagePlus size={16} /> {t("upload.choose")}
+                </label>
+            )}
+
+            {img && (
+                <div className="space-y-3">
+                    <div className="relative h-32 rounded-lg border border-gray-200 bg-[conic-gradient(#f3f4f6_25%,white_0_50%,#f3f4f6_0_75%,white_0)] bg-[length:16px_16px]">
+                        {result && <Image src={result.preview} alt={t("upload.preview")} fill unoptimized className="object-contain p-2" />}
+                    </div>
+
+                    <div role="group" aria-label={t("upload.shape")} className="grid grid-cols-2 gap-2">
+                        {SHAPES.map((shape) => (
+                            <button
+                                key={shape.id}
+                                type="button"
+                                onClick={() => apply(img, { ...options, shape: shape.id })}
+                                aria-pressed={options.shape === shape.id}
+                                className={`px-2 py-1.5 text-sm rounded-lg border transition-colors ${options.shape === shape.id ? 'border-brand-mint bg-brand-mint/5 text-gray-900' : 'border-gray-200 text-gray-600 hover:border-brand-mint/50'}`}
+                            >
+                                {t(shape.label)}
+                            </button>
+                        ))}
+                    </div>
+
+                    <label className="text-xs text-gray-600 flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options.removeBackground}
+                            onChange={(e) => apply(img, { ...options, removeBackground: e.target.checked })}
+                            className="accent-brand-mint"
+                        />
+                        {t("upload.removeBackground")}
+                    </label>
+                    {options.removeBackground && (
+                        <label className="block text-xs text-gray-600">
+                            {t("upload.tolerance")} ({options.tolerance})
+                            <input
+                                type="range"
+                                min={0}
+                                max={100}
+                                step={5}
+                                value={options.tolerance}
+                                onChange={(e) => apply(img, { ...options, tolerance: parseInt(e.target.value) })}
+                                className="w-full mt-1 accent-brand-mint"
+                            />
+                        </label>
+                    )}
+
+                    <button
+                        type="button"
+                        onClick={handleAdd}
+                        disabled={disabled || !result || isUploading}
+                        className="w-full flex items-center justify-center gap-2 bg-brand-mint hover:bg-brand-mint/90 disabled:opacity-60 text-white font-semibold py-2 rounded-lg transition-colors text-sm"
+                    >
+                        {isUploading ? <><Loader2 size={16} className="animate-spin" /> {t("upload.uploading")}</> : t("upload.add")}
+                    </button>
+                </div>
+            )}
+
+            {error && <p role="alert" className="mt-2 text-xs text-red-600">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import { notFound, redirect } from "next/navigation";
+import Customizer from "../Customizer";
+import { getProductType } from "../../lib/catalog";
+import { getCatalog } from "../../lib/catalogStore";
+import { customizerHref, designProductType } from "../../lib/design";
+import { CART_PARAM, decodeDesign, SHARE_PARAM, VIEW_PARAM } from "../../lib/share";
+
+type CustomizerPageProps = {
+  params: Promise<{ product: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+// Only catalog product types have a customizer
+export const dynamicParams = false;
+
+export async function generateStaticParams() {
+  const catalog = await getCatalog();
+  return catalog.productTypes.map((productType) => ({ product: productType.id }));
+}
+
+export async function generateMetadata({ params }: CustomizerPageProps): Promise<Metadata> {
+  const { product } = await params;
+  const productType = getProductType(await getCatalog(), product);
+  if (!productType) return {};
+  return { title: `Custom ${productType.name} | Ongoing Project` };
+}
+
+export default async function ProductCustomizerPage({ params, searchParams }: CustomizerPageProps) {
+  const { product } = await params;
+  const catalog = await getCatalog();
+  const productType = getProductType(catalog, product);
+  if (!productType) notFound();
+
+  const query = await searchParams;
+  const shared = query[SHARE_PARAM];
+  const encoded = Array.isArray(shared) ? shared[0] : shared;
+  const initialDesign = decodeDesign(encoded, catalog);
+  const readOnly = !!initialDesign && query[VIEW_PARAM] === "1";
+  const cartItem = query[CART_PARAM];
+
+  // A shared design opens on its own product type's page
+  const designType = initialDesign ? designProductType(initialDesign, catalog) : productType;
+  if (designType.id !== productType.id) {
+    redirect(`${customizerHref(designType.id)}?${SHARE_PARAM}=${encoded}${readOnly ? `&${VIEW_PARAM}=1` : ""}`);
+  }
+
+  return (
+    <Customizer
+      key={productType.id}
+      productType={productType}
+      initialDesign={initialDesign}
+      invalidShareLink={!!encoded && !initialDesign}
+      readOnly={readOnly}
+      cartItemId={initialDesign && !readOnly && typeof cartItem === "string" ? cartItem : null}
+    />
+  );
+}
@@ -1,6 +1,10 @@
 import type { Metadata } from "next";
-import { Poppins } from "next/font/google";
+import { Bebas_Neue, Caveat, Pacifico, Poppins } from "next/font/google";
 import "./globals.css";
+import CatalogProvider from "./components/CatalogProvider";
+import LocaleProvider from "./components/LocaleProvider";
+import { getCatalog } from "./lib/catalogStore";
+import { getLocale, getT } from "./lib/serverLocale";
 
 const poppins = Poppins({
   weight: ["300", "400", "500", "600", "700"],
@@ -8,20 +12,47 @@ const poppins = Poppins({
   variable: "--font-poppins",
 });
 
-export const metadata: Metadata = {
-  title: "Ongoing Project",
-  description: "Create your own custom keychain with our interactive design tool.",
-};
+// Extra families for text items (see lib/text.ts)
+const pacifico = Pacifico({
+  weight: "400",
+  subsets: ["latin"],
+  variable: "--font-pacifico",
+});
+
+const bebasNeue = Bebas_Neue({
+  weight: "400",
+  subsets: ["latin"],
+  variable: "--font-bebas-neue",
+});
 
-export default function RootLayout({
+const caveat = Caveat({
+  weight: ["700"],
+  subsets: ["latin"],
+  variable: "--font-caveat",
+});
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = await getT();
+  return {
+    title: "Ongoing Project",
+    description: t("meta.description"),
+  };
+}
+
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getLocale();
+  const catalog = await getCatalog();
+
   return (
-    <html lang="id">
-      <body className={`${poppins.variable} font-sans antialiased text-gray-900 bg-white`}>
-        {children}
+    <html lang={locale}>
+      <body className={`${poppins.variable} ${pacifico.variable} ${bebasNeue.variable} ${caveat.variable} font-sans antialiased text-gray-900 bg-white`}>
+        <LocaleProvider locale={locale}>
+          <CatalogProvider catalog={catalog}>{children}</CatalogProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
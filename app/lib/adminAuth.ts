@@ -0,0 +1,62 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { rateLimiter } from "./rateLimit";
+
+// Sign-in for the /admin area. Server-only.
+//
+// There's one admin password, ADMIN_PASSWORD in the server's environment;
+// without it the admin area stays locked. Signing in sets a session cookie
+// holding its expiry time and an HMAC of it keyed on the password, so no
+// session state is stored and changing the password signs everyone out.
+// Each client gets SIGN_IN_LIMIT attempts per SIGN_IN_WINDOW_MS, so the
+// password can't be guessed by brute force.
+
+export const ADMIN_COOKIE = "admin_session";
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // Seconds
+
+const SIGN_IN_LIMIT = 10;
+const SIGN_IN_WINDOW_MS = 15 * 60 * 1000;
+
+const adminPassword = () => process.env.ADMIN_PASSWORD || null;
+
+const sign = (payload: string, key: string) => createHmac("sha256", key).update(payload).digest("base64url");
+
+// Compare fixed-length digests, so timing leaks neither content nor length
+const digest = (text: string) => createHash("sha256").update(text).digest();
+const safeEqual = (a: string, b: string) => timingSafeEqual(digest(a), digest(b));
+
+export const isAdminConfigured = () => adminPassword() !== null;
+
+export function checkPassword(password: string): boolean {
+    const expected = adminPassword();
+    return expected !== null && safeEqual(password, expected);
+}
+
+/** Count a sign-in attempt from `client` (see clientAddress); false once it's over SIGN_IN_LIMIT. */
+export const allowSignIn = rateLimiter(SIGN_IN_LIMIT, SIGN_IN_WINDOW_MS);
+
+export function createSessionToken(now = Date.now()): string {
+    const password = adminPassword();
+    if (!password) throw new Error("ADMIN_PASSWORD is not set");
+    const expires = String(now + SESSION_MAX_AGE * 1000);
+    return `${expires}.${sign(expires, password)}`;
+}
+
+export function verifySessionToken(token: string | undefined, now = Date.now()): boolean {
+    const password = adminPassword();
+    if (!password || !token) return false;
+    const [expires, signature] = token.split(".");
+    if (!expires || !signature || !safeEqual(signature, sign(expires, password))) return false;
+    return Number(expires) > now;
+}
+
+/** Whether the current request carries a valid admin session. */
+export async function isAdmin(): Promise<boolean> {
+    return verifySessionToken((await cookies()).get(ADMIN_COOKIE)?.value);
+}
+
+/** For admin pages: send anyone not signed in to the sign-in page. */
+export async function requireAdmin() {
+    if (!(await isAdmin())) redirect("/admin/login");
+}
@@ -0,0 +1,531 @@
+import rawCatalog from "./catalog.json";
+import { LocalizedText, LOCALES } from "./i18n";
+
+// Product catalog: customizable product types and their bases, charms, the padel series and the other
+// merchandise shown on the landing page (each with its own /products page). Everything references items by ID;
+// the data lives in catalog.json and is validated when this module loads, so
+// a broken entry fails `next build` instead of showing up as a missing image.
+//
+// catalog.json is only the starting point: bases and charms can be edited in
+// the admin area, which keeps the live catalog in catalogStore.ts. Server code
+// reads it with getCatalog(), client components with useCatalog().
+
+// Area of a base where charms can be attached, as fractions of the base image
+// (x/y = top-left corner). Charms are constrained to keep their center inside it.
+export type PrintableArea = { x: number; y: number; width: number; height: number };
+
+// Which charms fit on a base, or in one of its slots. A charm fits if it's
+// in `categories` or `charms` (both omitted: any charm) and in neither
+// `excludeCategories` nor `excludeCharms`. `reason` is shown to customers
+// when a charm is refused, in their language, e.g. { "id": "Hanya untuk charm
+// Seri Padel.", "en": "Padel Series charms only." }
+export type CharmRules = {
+    categories?: string[]; // CharmCategory ids
+    charms?: string[]; // Charm ids
+    excludeCategories?: string[]; // CharmCategory ids
+    excludeCharms?: string[]; // Charm ids
+    reason?: LocalizedText;
+};
+
+// A named charm position used by fixed (template) mode. x/y is the charm's
+// center and maxScale its width, all as fractions of the base image. Its
+// rules apply on top of the base's own.
+export type SlotTemplate = CharmRules & {
+    id: string;
+    label: string;
+    x: number;
+    y: number;
+    maxScale: number;
+};
+
+// Custom text allowed on a base: a character limit per text item and, for
+// fixed mode, an optional text slot. The slot's x/y is the text's center as
+// fractions of the base image; maxWidth/maxHeight bound the rendered text, as
+// fractions of the base image's width (like SlotTemplate.maxScale).
+export type TextRules = {
+    maxLength: number;
+    slot?: { x: number; y: number; maxWidth: number; maxHeight: number };
+};
+
+// How a product type's editor canvas is laid out: the canvas is `aspect`
+// times as tall as it is wide, and each base image is drawn centered on it,
+// `baseScale` of the canvas wide.
+export type CanvasLayout = {
+    aspect: number;
+    baseScale: number;
+};
+
+// Something the customizer can design (keychain, bagtag...), at
+// /customizer/<id>. Its bases carry the images, printable areas and slots.
+export type ProductType = {
+    id: string;
+    name: string;
+    canvas: CanvasLayout;
+    zoom: number; // Editor zoom a new design starts at
+};
+
+export type Base = {
+    id: string;
+    name: string;
+    productType: string; // ProductType id
+    image: string;
+    thumbnail?: string; // Smaller copy of image for the pickers; omitted: image itself
+    hidden?: boolean; // Not offered in the customizer, but existing designs still open
+    stock?: number; // Pieces left; omitted: not tracked, never runs out
+    price: number; // IDR
+    size: { widthMm: number; heightMm: number }; // Physical size of the base image's full extent
+    printableArea: PrintableArea;
+    slots: SlotTemplate[]; // Listed top to bottom, as shown in the slot controls
+    charmRules?: CharmRules; // Apply to every slot and to manual mode; omitted: any charm
+    text?: TextRules; // Omitted: no custom text on this base
+};
+
+export type CharmCategory = {
+    id: string;
+    name: string;
+};
+
+export type Charm = {
+    id: string;
+    name: string;
+    image: string;
+    thumbnail?: string; // As on Base
+    hidden?: boolean; // As on Base
+    stock?: number; // As on Base
+    category: string; // CharmCategory id
+    tags: string[]; // Extra search terms (synonyms, colors, English names)
+    price: number; // IDR
+};
+
+// A purchasable option of a product (size, design...). `price` overrides the
+// product's; `image` is the gallery image that shows it.
+export type ProductVariant = {
+    id: string;
+    name: string;
+    price?: number; // IDR
+    image?: string;
+};
+
+// What a product detail page sells. Series and other products share one
+// slug namespace under /products.
+export type ProductDetails = {
+    description: string;
+    price: number; // IDR
+    variants: ProductVariant[]; // Empty: sold as-is
+    customizer?: string; // ProductType id, when a custom one can be designed in the customizer
+};
+
+export type Series = ProductDetails & {
+    id: string;
+    name: string;
+    cover: string;
+    images: string[];
+};
+
+export type ShowcaseItem = {
+    id: string;
+    name: string;
+    image: string;
+    priceFrom: number; // IDR
+};
+
+export type OtherProduct = ProductDetails & {
+    id: string;
+    name: string;
+    images: string[]; // The first is the card image on the landing page
+};
+
+// Bulk discount applied once the order reaches minQuantity pieces
+export type QuantityTier = {
+    minQuantity: number;
+    discountPercent: number;
+};
+
+// Optional extra charged per keychain (packaging etc.)
+export type AddOn = {
+    id: string;
+    name: string;
+    price: number; // IDR
+};
+
+export type Pricing = {
+    quantityTiers: QuantityTier[]; // Ascending by minQuantity
+    addOns: AddOn[];
+    uploadCharm: { name: string; price: number }; // Charm printed from a customer's image
+};
+
+export type Catalog = {
+    productTypes: ProductType[];
+    bases: Base[];
+    charmCategories: CharmCategory[];
+    charms: Charm[];
+    series: Series[];
+    showcase: ShowcaseItem[];
+    otherProducts: OtherProduct[];
+    pricing: Pricing;
+};
+
+// -------------------
+// VALIDATION
+// -------------------
+type Fields = Record<string, unknown>;
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+function fail(path: string, message: string): never {
+    throw new Error(`Invalid catalog: ${path} ${message}`);
+}
+
+function asObject(value: unknown, path: string): Fields {
+    if (!value || typeof value !== "object" || Array.isArray(value)) fail(path, "must be an object");
+    return value as Fields;
+}
+
+function asList(value: unknown, path: string, allowEmpty = false): unknown[] {
+    if (!Array.isArray(value) || (value.length === 0 && !allowEmpty)) fail(path, allowEmpty ? "must be an array" : "must be a non-empty array");
+    return value;
+}
+
+function asString(value: unknown, path: string): string {
+    if (typeof value !== "string" || !value.trim()) fail(path, "must be a non-empty string");
+    return value;
+}
+
+function asLocalized(value: unknown, path: string): LocalizedText {
+    const text = asObject(value, path);
+    return Object.fromEntries(LOCALES.map(locale => [locale, asString(text[locale], `${path}.${locale}`)])) as LocalizedText;
+}
+
+function asId(value: unknown, path: string): string {
+    const id = asString(value, path);
+    if (!ID_PATTERN.test(id)) fail(path, `"${id}" must be lowercase kebab-case`);
+    return id;
+}
+
+function asImage(value: unknown, path: string): string {
+    const src = asString(value, path);
+    if (!src.startsWith("/")) fail(path, `"${src}" must be an absolute path (under public/ or an uploaded asset)`);
+    return src;
+}
+
+function asBoolean(value: unknown, path: string): boolean {
+    if (typeof value !== "boolean") fail(path, "must be true or false");
+    return value;
+}
+
+function asPrice(value: unknown, path: string): number {
+    if (!Number.isInteger(value) || (value as number) < 0) fail(path, "must be a whole, non-negative IDR amount");
+    return value as number;
+}
+
+function asFraction(value: unknown, path: string): number {
+    if (typeof value !== "number" || value < 0 || value > 1) fail(path, "must be a number between 0 and 1");
+    return value;
+}
+
+function asPositive(value: unknown, path: string): number {
+    if (typeof value !== "number" || value <= 0) fail(path, "must be a positive number");
+    return value;
+}
+
+function asPercent(value: unknown, path: string): number {
+    if (typeof value !== "number" || value < 0 || value > 100) fail(path, "must be a number between 0 and 100");
+    return value;
+}
+
+function asSize(value: unknown, path: string): Base["size"] {
+    const size = asObject(value, path);
+    const isLength = (v: unknown) => typeof v === "number" && v > 0;
+    if (!isLength(size.widthMm)) fail(`${path}.widthMm`, "must be a positive number of millimetres");
+    if (!isLength(size.heightMm)) fail(`${path}.heightMm`, "must be a positive number of millimetres");
+    return { widthMm: size.widthMm as number, heightMm: size.heightMm as number };
+}
+
+function asTextRules(value: unknown, path: string): TextRules {
+    const rules = asObject(value, path);
+    if (!Number.isInteger(rules.maxLength) || (rules.maxLength as number) < 1) fail(`${path}.maxLength`, "must be a whole number of at least 1");
+    if (rules.slot === undefined) return { maxLength: rules.maxLength as number };
+    const slot = asObject(rules.slot, `${path}.slot`);
+    return {
+        maxLength: rules.maxLength as number,
+        slot: {
+            x: asFraction(slot.x, `${path}.slot.x`),
+            y: asFraction(slot.y, `${path}.slot.y`),
+            maxWidth: asFraction(slot.maxWidth, `${path}.slot.maxWidth`),
+            maxHeight: asFraction(slot.maxHeight, `${path}.slot.maxHeight`),
+        },
+    };
+}
+
+function asArea(value: unknown, path: string): PrintableArea {
+    const area = asObject(value, path);
+    const parsed = {
+        x: asFraction(area.x, `${path}.x`),
+        y: asFraction(area.y, `${path}.y`),
+        width: asFraction(area.width, `${path}.width`),
+        height: asFraction(area.height, `${path}.height`),
+    };
+    if (parsed.x + parsed.width > 1 || parsed.y + parsed.height > 1) fail(path, "must fit inside the base image");
+    return parsed;
+}
+
+// Parse every entry of a list and reject duplicate IDs
+function parseList<T extends { id: string }>(value: unknown, path: string, parse: (entry: Fields, path: string) => T, allowEmpty = false): T[] {
+    const seen = new Set<string>();
+    return asList(value, path, allowEmpty).map((entry, i) => {
+        const parsed = parse(asObject(entry, `${path}[${i}]`), `${path}[${i}]`);
+        if (seen.has(parsed.id)) fail(`${path}[${i}].id`, `"${parsed.id}" is used more than once`);
+        seen.add(parsed.id);
+        return parsed;
+    });
+}
+
+/** Validate raw catalog data. Throws with the path of the first bad field. */
+export function validateCatalog(data: unknown): Catalog {
+    const root = asObject(data, "catalog");
+
+    const charmCategories = parseList(root.charmCategories, "charmCategories", (c, path) => ({
+        id: asId(c.id, `${path}.id`),
+        name: asString(c.name, `${path}.name`),
+    }));
+    const categoryIds = new Set(charmCategories.map(c => c.id));
+
+    const asCategory = (value: unknown, path: string) => {
+        const category = asId(value, path);
+        if (!categoryIds.has(category)) fail(path, `"${category}" is not a known charm category`);
+        return category;
+    };
+
+    const productTypes = parseList(root.productTypes, "productTypes", (p, path) => {
+        const canvas = asObject(p.canvas, `${path}.canvas`);
+        return {
+            id: asId(p.id, `${path}.id`),
+            name: asString(p.name, `${path}.name`),
+            canvas: {
+                aspect: asPositive(canvas.aspect, `${path}.canvas.aspect`),
+                baseScale: asFraction(canvas.baseScale, `${path}.canvas.baseScale`),
+            },
+            zoom: asPositive(p.zoom, `${path}.zoom`),
+        };
+    });
+    const productTypeIds = new Set(productTypes.map(p => p.id));
+
+    // Charm IDs are checked once the charms are parsed, below
+    const asRules = (rules: Fields, path: string): CharmRules => {
+        const ids = (key: keyof CharmRules, parse: (value: unknown, path: string) => string) =>
+            rules[key] === undefined ? {} : { [key]: asList(rules[key], `${path}.${key}`).map((v, i) => parse(v, `${path}.${key}[${i}]`)) };
+        return {
+            ...ids("categories", asCategory),
+            ...ids("charms", asId),
+            ...ids("excludeCategories", asCategory),
+            ...ids("excludeCharms", asId),
+            ...(rules.reason === undefined ? {} : { reason: asLocalized(rules.reason, `${path}.reason`) }),
+        };
+    };
+
+    const asProductType = (value: unknown, path: string) => {
+        const productType = asId(value, path);
+        if (!productTypeIds.has(productType)) fail(path, `"${productType}" is not a known product type`);
+        return productType;
+    };
+
+    const parsed: Catalog = {
+        productTypes,
+        bases: parseList(root.bases, "bases", (b, path) => ({
+            id: asId(b.id, `${path}.id`),
+            name: asString(b.name, `${path}.name`),
+            productType: asProductType(b.productType, `${path}.productType`),
+            image: asImage(b.image, `${path}.image`),
+            ...asListing(b, path),
+            price: asPrice(b.price, `${path}.price`),
+            size: asSize(b.size, `${path}.size`),
+            printableArea: asArea(b.printableArea, `${path}.printableArea`),
+            slots: parseList(b.slots, `${path}.slots`, (slot, slotPath) => ({
+                id: asId(slot.id, `${slotPath}.id`),
+                label: asString(slot.label, `${slotPath}.label`),
+                x: asFraction(slot.x, `${slotPath}.x`),
+                y: asFraction(slot.y, `${slotPath}.y`),
+                maxScale: asFraction(slot.maxScale, `${slotPath}.maxScale`),
+                ...asRules(slot, slotPath),
+            })),
+            ...(b.charmRules === undefined ? {} : { charmRules: asRules(asObject(b.charmRules, `${path}.charmRules`), `${path}.charmRules`) }),
+            ...(b.text === undefined ? {} : { text: asTextRules(b.text, `${path}.text`) }),
+        })),
+        charmCategories,
+        charms: parseList(root.charms, "charms", (c, path) => ({
+            id: asId(c.id, `${path}.id`),
+            name: asString(c.name, `${path}.name`),
+            image: asImage(c.image, `${path}.image`),
+            ...asListing(c, path),
+            category: asCategory(c.category, `${path}.category`),
+            tags: c.tags === undefined ? [] : asList(c.tags, `${path}.tags`, true).map((tag, i) => asString(tag, `${path}.tags[${i}]`).toLowerCase()),
+            price: asPrice(c.price, `${path}.price`),
+        })),
+        series: parseList(root.series, "series", (s, path) => {
+            const images = asList(s.images, `${path}.images`).map((src, i) => asImage(src, `${path}.images[${i}]`));
+            return {
+                id: asId(s.id, `${path}.id`),
+                name: asString(s.name, `${path}.name`),
+                cover: asImage(s.cover, `${path}.cover`),
+                images,
+                ...asProductDetails(s, images, path, asProductType),
+            };
+        }),
+        showcase: parseList(root.showcase, "showcase", (s, path) => ({
+            id: asId(s.id, `${path}.id`),
+            name: asString(s.name, `${path}.name`),
+            image: asImage(s.image, `${path}.image`),
+            priceFrom: asPrice(s.priceFrom, `${path}.priceFrom`),
+        })),
+        otherProducts: parseList(root.otherProducts, "otherProducts", (p, path) => {
+            const images = asList(p.images, `${path}.images`).map((src, i) => asImage(src, `${path}.images[${i}]`));
+            return {
+                id: asId(p.id, `${path}.id`),
+                name: asString(p.name, `${path}.name`),
+                images,
+                ...asProductDetails(p, images, path, asProductType),
+            };
+        }),
+        pricing: asPricing(root.pricing, "pricing"),
+    };
+
+    const charmIds = new Set(parsed.charms.map(c => c.id));
+    parsed.bases.forEach((b, i) => {
+        [[b.charmRules, `bases[${i}].charmRules`] as const, ...b.slots.map((slot, j) => [slot, `bases[${i}].slots[${j}]`] as const)].forEach(([rules, path]) => {
+            [...rules?.charms ?? [], ...rules?.excludeCharms ?? []].forEach(id => {
+                if (!charmIds.has(id)) fail(path, `"${id}" is not a known charm`);
+            });
+        });
+    });
+
+    parsed.productTypes.forEach((p, i) => {
+        if (!parsed.bases.some(b => b.productType === p.id && !b.hidden)) fail(`productTypes[${i}]`, `"${p.id}" has no visible bases`);
+    });
+
+    // Series and other products share the /products/<id> URLs
+    const seriesIds = new Set(parsed.series.map(s => s.id));
+    parsed.otherProducts.forEach((p, i) => {
+        if (seriesIds.has(p.id)) fail(`otherProducts[${i}].id`, `"${p.id}" is already used by a series`);
+    });
+    return parsed;
+}
+
+// Optional thumbnail, hidden flag and stock of bases and charms
+function asListing(item: Fields, path: string): { thumbnail?: string; hidden?: boolean; stock?: number } {
+    if (item.stock !== undefined && (!Number.isInteger(item.stock) || (item.stock as number) < 0)) fail(`${path}.stock`, "must be a whole, non-negative number of pieces");
+    return {
+        ...(item.thumbnail === undefined ? {} : { thumbnail: asImage(item.thumbnail, `${path}.thumbnail`) }),
+        ...(item.hidden === undefined ? {} : { hidden: asBoolean(item.hidden, `${path}.hidden`) }),
+        ...(item.stock === undefined ? {} : { stock: item.stock as number }),
+    };
+}
+
+function asProductDetails(product: Fields, images: string[], path: string, asProductType: (value: unknown, path: string) => string): ProductDetails {
+    return {
+        description: asString(product.description, `${path}.description`),
+        price: asPrice(product.price, `${path}.price`),
+        variants: product.variants === undefined ? [] : parseList(product.variants, `${path}.variants`, (v, variantPath) => {
+            if (v.image !== undefined && !images.includes(v.image as string)) fail(`${variantPath}.image`, "must be one of the product's images");
+            return {
+                id: asId(v.id, `${variantPath}.id`),
+                name: asString(v.name, `${variantPath}.name`),
+                ...(v.price === undefined ? {} : { price: asPrice(v.price, `${variantPath}.price`) }),
+                ...(v.image === undefined ? {} : { image: v.image as string }),
+            };
+        }, true),
+        ...(product.customizer === undefined ? {} : { customizer: asProductType(product.customizer, `${path}.customizer`) }),
+    };
+}
+
+function asPricing(value: unknown, path: string): Pricing {
+    const pricing = asObject(value, path);
+    const quantityTiers = asList(pricing.quantityTiers, `${path}.quantityTiers`).map((entry, i) => {
+        const tier = asObject(entry, `${path}.quantityTiers[${i}]`);
+        if (!Number.isInteger(tier.minQuantity) || (tier.minQuantity as number) < 2) fail(`${path}.quantityTiers[${i}].minQuantity`, "must be a whole number of at least 2");
+        return {
+            minQuantity: tier.minQuantity as number,
+            discountPercent: asPercent(tier.discountPercent, `${path}.quantityTiers[${i}].discountPercent`),
+        };
+    });
+    quantityTiers.forEach((tier, i) => {
+        if (i > 0 && tier.minQuantity <= quantityTiers[i - 1].minQuantity) fail(`${path}.quantityTiers[${i}]`, "must be sorted by ascending minQuantity");
+    });
+    const uploadCharm = asObject(pricing.uploadCharm, `${path}.uploadCharm`);
+
+    return {
+        quantityTiers,
+        addOns: parseList(pricing.addOns, `${path}.addOns`, (a, addOnPath) => ({
+            id: asId(a.id, `${addOnPath}.id`),
+            name: asString(a.name, `${addOnPath}.name`),
+            price: asPrice(a.price, `${addOnPath}.price`),
+        })),
+        uploadCharm: {
+            name: asString(uploadCharm.name, `${path}.uploadCharm.name`),
+            price: asPrice(uploadCharm.price, `${path}.uploadCharm.price`),
+        },
+    };
+}
+
+/** The catalog as shipped in catalog.json, before any admin edits. */
+export const defaultCatalog: Catalog = validateCatalog(rawCatalog);
+
+// -------------------
+// LOOKUPS
+// -------------------
+export const getProductType = (catalog: Catalog, id: string) => catalog.productTypes.find(p => p.id === id);
+export const getBase = (catalog: Catalog, id: string) => catalog.bases.find(b => b.id === id);
+export const getCharm = (catalog: Catalog, id: string) => catalog.charms.find(c => c.id === id);
+export const getSeries = (catalog: Catalog, id: string) => catalog.series.find(s => s.id === id);
+
+/** The bases a product type is designed on, in catalog order. */
+export const productBases = (catalog: Catalog, productTypeId: string) => catalog.bases.filter(b => b.productType === productTypeId);
+
+/** The bases the customizer offers for a product type (validation guarantees at least one). */
+export const listedBases = (catalog: Catalog, productTypeId: string) => productBases(catalog, productTypeId).filter(b => !b.hidden);
+
+/** The charms the customizer offers, in catalog order. */
+export const listedCharms = (catalog: Catalog) => catalog.charms.filter(c => !c.hidden);
+
+// Whether a base or charm can be ordered: hidden ones are withdrawn from
+// sale, sold-out ones are still shown but can't be picked until restocked
+export type Availability = 'available' | 'soldOut' | 'hidden';
+
+export const availability = (item: Base | Charm): Availability =>
+    item.hidden ? 'hidden' : item.stock === 0 ? 'soldOut' : 'available';
+
+/** Image to show a base or charm with in a picker. */
+export const thumbnailSrc = (item: Base | Charm) => item.thumbnail ?? item.image;
+
+/** The product type a base belongs to (validation guarantees it exists). */
+export const baseProductType = (catalog: Catalog, base: Base) => getProductType(catalog, base.productType)!;
+
+// Case- and accent-insensitive form of search text
+const normalizeSearch = (text: string) => text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+/**
+ * Charms matching a search query, in catalog order. Every word of the query
+ * must appear in the charm's name, ID, tags or category name.
+ */
+export function searchCharms(catalog: Catalog, charms: Charm[], query: string): Charm[] {
+    const words = normalizeSearch(query).split(/\s+/).filter(Boolean);
+    if (words.length === 0) return charms;
+    return charms.filter(charm => {
+        const category = catalog.charmCategories.find(c => c.id === charm.category);
+        const haystack = normalizeSearch([charm.name, charm.id, ...charm.tags, category?.name ?? ""].join(" "));
+        return words.every(word => haystack.includes(word));
+    });
+}
+
+const fitsRules = (rules: CharmRules, charm: Charm) =>
+    (!rules.categories && !rules.charms || !!rules.categories?.includes(charm.category) || !!rules.charms?.includes(charm.id))
+    && !rules.excludeCategories?.includes(charm.category) && !rules.excludeCharms?.includes(charm.id);
+
+/**
+ * The rules that keep a charm off a base: the base's own, or those of `slot`
+ * in fixed mode (null: manual mode). Undefined when the charm fits.
+ */
+export const refusingRules = (base: Base, slot: SlotTemplate | null, charm: Charm): CharmRules | undefined =>
+    [base.charmRules, slot ?? undefined].find(rules => rules && !fitsRules(rules, charm));
+
+/** Whether a charm may be placed in one of a base's fixed-mode slots. */
+export const slotAccepts = (base: Base, slot: SlotTemplate, charm: Charm) => !refusingRules(base, slot, charm);
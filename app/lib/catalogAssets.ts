@@ -0,0 +1,61 @@
+import { existsSync } from "fs";
+import path from "path";
+import { Catalog } from "./catalog";
+import { ASSET_ID_PATTERN, ASSET_ROUTE } from "./catalogEdit";
+
+// Checks that every image the catalog points at exists: under public/, or in
+// the asset store (CATALOG_ASSETS_DIR, default data/catalog-assets) for images
+// added through the admin area. Server-only (uses the filesystem). The bundled
+// catalog is checked from static generation, so a missing file fails
+// `next build` instead of rendering a broken image; the live catalog is
+// checked as catalogStore.ts loads it.
+
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+export const CATALOG_ASSETS_DIR = process.env.CATALOG_ASSETS_DIR || path.join(process.cwd(), "data", "catalog-assets");
+
+export const catalogAssetPath = (id: string) => path.join(CATALOG_ASSETS_DIR, `${id}.png`);
+
+/** Every image path the catalog references, with where it's referenced from. */
+function catalogImages(catalog: Catalog): { src: string; path: string }[] {
+    return [
+        ...catalog.bases.flatMap((b, i) => [
+            { src: b.image, path: `bases[${i}].image` },
+            ...(b.thumbnail ? [{ src: b.thumbnail, path: `bases[${i}].thumbnail` }] : []),
+        ]),
+        ...catalog.charms.flatMap((c, i) => [
+            { src: c.image, path: `charms[${i}].image` },
+            ...(c.thumbnail ? [{ src: c.thumbnail, path: `charms[${i}].thumbnail` }] : []),
+        ]),
+        ...catalog.series.flatMap((s, i) => [
+            { src: s.cover, path: `series[${i}].cover` },
+            ...s.images.map((src, j) => ({ src, path: `series[${i}].images[${j}]` })),
+        ]),
+        ...catalog.showcase.map((s, i) => ({ src: s.image, path: `showcase[${i}].image` })),
+        ...catalog.otherProducts.flatMap((p, i) => p.images.map((src, j) => ({ src, path: `otherProducts[${i}].images[${j}]` }))),
+    ];
+}
+
+// The file an image path is served from
+function imageFile(src: string): string | null {
+    if (!src.startsWith(`${ASSET_ROUTE}/`)) return path.join(PUBLIC_DIR, src);
+    const id = src.slice(ASSET_ROUTE.length + 1);
+    return ASSET_ID_PATTERN.test(id) ? catalogAssetPath(id) : null;
+}
+
+/** The catalog's images with no file behind them, one line each ("bases[0].image: /x.png"). */
+export function missingCatalogImages(catalog: Catalog): string[] {
+    return catalogImages(catalog)
+        .filter(({ src }) => {
+            const file = imageFile(src);
+            return !file || !existsSync(file);
+        })
+        .map(m => `${m.path}: ${m.src}`);
+}
+
+/** Throw, listing all of them, if any catalog image is missing. */
+export function assertCatalogImages(catalog: Catalog) {
+    const missing = missingCatalogImages(catalog);
+    if (missing.length > 0) {
+        throw new Error(`Invalid catalog: missing image files:\n${missing.map(m => `  ${m}`).join("\n")}`);
+    }
+}
@@ -0,0 +1,195 @@
+import { Base, Catalog, Charm, getBase, getProductType } from "./catalog";
+import { Translate } from "./i18n";
+
+// Editing bases and charms from the admin area (see app/admin/catalog).
+//
+// Images are scaled in the browser, then stored on the server as PNGs (see
+// catalogStore.ts) together with a small thumbnail for the pickers, and
+// served back from ASSET_ROUTE. Edits are validated here, against the
+// catalog they change, so the form and the API route agree on the rules.
+
+export const ASSET_ROUTE = "/api/catalog-assets";
+export const ASSET_UPLOAD_ROUTE = "/api/admin/assets";
+export const MAX_ASSET_BYTES = 5 * 1024 * 1024;
+// Longest side of a stored image; plenty for a base drawn on the canvas
+export const MAX_ASSET_PX = 1600;
+// Longest side of a thumbnail; pickers show them at 64-80 px
+export const THUMBNAIL_PX = 160;
+
+export const ASSET_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+export const assetUrl = (id: string) => `${ASSET_ROUTE}/${id}`;
+
+export type CatalogKind = 'bases' | 'charms';
+
+export const CATALOG_KINDS: CatalogKind[] = ['bases', 'charms'];
+
+export const isCatalogKind = (value: unknown): value is CatalogKind => CATALOG_KINDS.includes(value as CatalogKind);
+
+// Stands in for the ID on the add form's URL, so no item may have it
+export const NEW_ITEM = "new";
+
+export const catalogItemHref = (kind: CatalogKind, id: string) => `/admin/catalog/${kind}/${id}`;
+
+// What the editor form sends. `productType` and `template` only matter when
+// adding a base: a new base is laid out (size, printable area, slots, charm
+// rules, text) like the template, an existing base of the same product type.
+export type CatalogItemInput = {
+    name: string;
+    price: number; // IDR
+    hidden: boolean;
+    stock: number | null; // null: not tracked
+    image: string;
+    thumbnail?: string;
+    category?: string; // Charms
+    tags?: string[]; // Charms
+    productType?: string; // New bases
+    template?: string; // New bases: Base id
+};
+
+export type CatalogEdit = { ok: true; catalog: Catalog; id: string } | { ok: false; error: string; status: number };
+
+const MAX_NAME_LENGTH = 60;
+const MAX_TAGS = 20;
+
+// Lowercase kebab-case ID from a name, e.g. "Kucing Oren" -> "kucing-oren"
+const slugify = (name: string) =>
+    name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+/** A new ID for an item named `name`, unlike any in `taken`. */
+export function uniqueId(name: string, taken: string[]): string {
+    const slug = slugify(name) || "item";
+    let id = slug;
+    for (let n = 2; taken.includes(id); n++) id = `${slug}-${n}`;
+    return id;
+}
+
+const invalid = (error: string): CatalogEdit => ({ ok: false, error, status: 400 });
+
+type Listing = Pick<Charm, "name" | "price" | "image" | "thumbnail" | "hidden" | "stock">;
+
+// Set an item's listing fields. Unset optional ones are left out rather than
+// stored as false or empty, as in catalog.json.
+function withListing<T extends Base | Charm>(item: T, listing: Listing): T {
+    const next = { ...item, name: listing.name, price: listing.price, image: listing.image };
+    delete next.thumbnail;
+    delete next.hidden;
+    delete next.stock;
+    if (listing.thumbnail) next.thumbnail = listing.thumbnail;
+    if (listing.hidden) next.hidden = true;
+    if (listing.stock !== undefined) next.stock = listing.stock;
+    return next;
+}
+
+/**
+ * Apply an add (`id` null) or an update to the bases or charms. Returns the
+ * changed catalog and the item's ID, or a user-facing error message in the
+ * admin's language (`t`).
+ */
+export function applyCatalogEdit(catalog: Catalog, kind: CatalogKind, id: string | null, body: unknown, t: Translate): CatalogEdit {
+    if (!body || typeof body !== "object") return invalid(t("api.invalidData"));
+    const fields = body as Record<string, unknown>;
+    const { name, price, hidden = false, stock = null, image, thumbnail } = fields;
+
+    const cleanName = typeof name === "string" ? name.trim() : "";
+    if (!cleanName || cleanName.length > MAX_NAME_LENGTH) return invalid(t("api.catalog.name", { max: MAX_NAME_LENGTH }));
+    if (!Number.isInteger(price) || (price as number) < 0) return invalid(t("api.catalog.price"));
+    if (typeof hidden !== "boolean") return invalid(t("api.catalog.hidden"));
+    if (stock !== null && (!Number.isInteger(stock) || (stock as number) < 0)) return invalid(t("api.catalog.stock"));
+    if (typeof image !== "string" || !image.startsWith("/")) return invalid(t("api.catalog.image"));
+    if (thumbnail !== undefined && (typeof thumbnail !== "string" || !thumbnail.startsWith("/"))) return invalid(t("api.catalog.thumbnail"));
+
+    const listing: Listing = {
+        name: cleanName,
+        price: price as number,
+        image,
+        thumbnail: thumbnail as string | undefined,
+        hidden,
+        stock: stock === null ? undefined : stock as number,
+    };
+    return kind === 'charms' ? applyCharmEdit(catalog, id, fields, listing, t) : applyBaseEdit(catalog, id, fields, listing, t);
+}
+
+function applyCharmEdit(catalog: Catalog, id: string | null, fields: Record<string, unknown>, listing: Listing, t: Translate): CatalogEdit {
+    const { category, tags = [] } = fields;
+    if (typeof category !== "string" || !catalog.charmCategories.some(c => c.id === category)) return invalid(t("api.catalog.category"));
+    if (!Array.isArray(tags) || tags.length > MAX_TAGS || !tags.every(tag => typeof tag === "string" && tag.trim())) {
+        return invalid(t("api.catalog.tags", { max: MAX_TAGS }));
+    }
+    const cleanTags = [...new Set(tags.map(tag => (tag as string).trim().toLowerCase()))];
+
+    if (id === null) {
+        const charm = withListing({ id: uniqueId(listing.name, [NEW_ITEM, ...catalog.charms.map(c => c.id)]), ...listing, category, tags: cleanTags }, listing);
+        return { ok: true, catalog: { ...catalog, charms: [...catalog.charms, charm] }, id: charm.id };
+    }
+    const index = catalog.charms.findIndex(c => c.id === id);
+    if (index === -1) return { ok: false, error: t("api.catalog.charmNotFound"), status: 404 };
+    const charms = [...catalog.charms];
+    charms[index] = withListing({ ...charms[index], category, tags: cleanTags }, listing);
+    return { ok: true, catalog: { ...catalog, charms }, id };
+}
+
+function applyBaseEdit(catalog: Catalog, id: string | null, fields: Record<string, unknown>, listing: Listing, t: Translate): CatalogEdit {
+    if (id === null) {
+        const { productType, template } = fields;
+        if (typeof productType !== "string" || !getProductType(catalog, productType)) return invalid(t("api.catalog.productType"));
+        const layout = typeof template === "string" ? getBase(catalog, template) : undefined;
+        if (!layout || layout.productType !== productType) return invalid(t("api.catalog.template"));
+
+        const { size, printableArea, slots, charmRules, text } = layout;
+        const base = withListing({
+            id: uniqueId(listing.name, [NEW_ITEM, ...catalog.bases.map(b => b.id)]),
+            ...listing,
+            productType,
+            size,
+            printableArea,
+            slots,
+            ...(charmRules ? { charmRules } : {}),
+            ...(text ? { text } : {}),
+        }, listing);
+        return { ok: true, catalog: { ...catalog, bases: [...catalog.bases, base] }, id: base.id };
+    }
+
+    const index = catalog.bases.findIndex(b => b.id === id);
+    if (index === -1) return { ok: false, error: t("api.catalog.baseNotFound"), status: 404 };
+    const bases = [...catalog.bases];
+    bases[index] = withListing(bases[index], listing);
+    if (!bases.some(b => b.productType === bases[index].productType && !b.hidden)) {
+        return invalid(t("api.catalog.lastBase"));
+    }
+    return { ok: true, catalog: { ...catalog, bases }, id };
+}
+
+// -------------------
+// ASSETS (browser-only)
+// -------------------
+// Scale an image down (never up) so its longer side is at most maxPx
+function scaleDown(img: HTMLImageElement, maxPx: number, t: Translate): HTMLCanvasElement {
+    const scale = Math.min(1, maxPx / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error(t("upload.errorCanvas"));
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+async function uploadAsset(canvas: HTMLCanvasElement, t: Translate): Promise<string> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+    if (!blob) throw new Error(t("upload.errorCanvas"));
+    const response = await fetch(ASSET_UPLOAD_ROUTE, { method: "POST", headers: { "Content-Type": "image/png" }, body: blob });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || typeof result.src !== "string") throw new Error(result.error || t("admin.catalog.uploadFailed"));
+    return result.src;
+}
+
+/** Store a picked image and its thumbnail; resolves to both URLs, or rejects with a message in `t`'s language. */
+export async function uploadCatalogImage(img: HTMLImageElement, t: Translate): Promise<{ image: string; thumbnail: string }> {
+    const [image, thumbnail] = await Promise.all([
+        uploadAsset(scaleDown(img, MAX_ASSET_PX, t), t),
+        uploadAsset(scaleDown(img, THUMBNAIL_PX, t), t),
+    ]);
+    return { image, thumbnail };
+}
@@ -0,0 +1,151 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { cache } from "react";
+import { Base, Catalog, Charm, defaultCatalog, validateCatalog } from "./catalog";
+import { CATALOG_ASSETS_DIR, catalogAssetPath, missingCatalogImages } from "./catalogAssets";
+import { ASSET_ID_PATTERN, assetUrl, CatalogEdit, MAX_ASSET_PX } from "./catalogEdit";
+import { readJsonFile, savePngByContent, writeJsonFile, writeLock } from "./fileStore";
+import { Translate } from "./i18n";
+import { pngSize } from "./uploadStore";
+
+// File-based store for the live catalog and the images added through the
+// admin area. Server-only: import from route handlers and server components,
+// never from client components.
+//
+// The catalog lives in CATALOG_FILE (default data/catalog.json). Until the
+// first admin edit there's no file and the bundled catalog.json is used; the
+// first edit copies it into the store, so later changes to catalog.json only
+// take effect once that file is removed. Images are PNGs in the asset store
+// (see catalogAssets.ts), named by a hash of their bytes like uploads.
+//
+// Stock counts change with every order, so they're kept apart in STOCK_FILE
+// (default data/stock.json): the count of each tracked base and charm that
+// orders or admin edits have changed, by ID, over whatever the catalog says.
+// Taking an order never copies the catalog itself.
+
+const CATALOG_FILE = process.env.CATALOG_FILE || path.join(process.cwd(), "data", "catalog.json");
+const STOCK_FILE = process.env.STOCK_FILE || path.join(process.cwd(), "data", "stock.json");
+
+type StockCounts = { bases: Record<string, number>; charms: Record<string, number> };
+
+const queued = writeLock();
+
+async function readStock(): Promise<StockCounts> {
+    const stored = (await readJsonFile(STOCK_FILE) ?? {}) as Partial<StockCounts>;
+    const counts = (value: unknown) => Object.fromEntries(
+        Object.entries(value && typeof value === "object" ? value : {}).filter(([, count]) => Number.isInteger(count) && count >= 0),
+    );
+    return { bases: counts(stored.bases), charms: counts(stored.charms) };
+}
+
+// The catalog with the stored counts in place of its own, for items it tracks
+function withStock(catalog: Catalog, counts: StockCounts): Catalog {
+    const apply = <T extends Base | Charm>(item: T, stored: Record<string, number>): T =>
+        item.stock === undefined || stored[item.id] === undefined ? item : { ...item, stock: stored[item.id] };
+    return {
+        ...catalog,
+        bases: catalog.bases.map(base => apply(base, counts.bases)),
+        charms: catalog.charms.map(charm => apply(charm, counts.charms)),
+    };
+}
+
+// Store the counts that differ between two versions of the catalog
+async function saveStockChanges(before: Catalog, after: Catalog) {
+    const changed = <T extends Base | Charm>(items: T[], previous: T[]) => items.flatMap(item => {
+        const old = previous.find(p => p.id === item.id);
+        return item.stock !== undefined && item.stock !== old?.stock ? [[item.id, item.stock] as const] : [];
+    });
+    const bases = changed(after.bases, before.bases);
+    const charms = changed(after.charms, before.charms);
+    if (bases.length === 0 && charms.length === 0) return;
+    const counts = await readStock();
+    await writeJsonFile(STOCK_FILE, {
+        bases: { ...counts.bases, ...Object.fromEntries(bases) },
+        charms: { ...counts.charms, ...Object.fromEntries(charms) },
+    });
+}
+
+let reportedMissing = "";
+
+// The stored catalog's images are checked as it loads, unlike the bundled
+// one's at build time. A missing file is logged (once) rather than thrown, so
+// the rest of the catalog still shows.
+function reportMissingImages(catalog: Catalog) {
+    const missing = missingCatalogImages(catalog).join("\n");
+    if (missing && missing !== reportedMissing) console.error(`Live catalog: missing image files:\n${missing}`);
+    reportedMissing = missing;
+}
+
+async function readCatalog(): Promise<Catalog> {
+    const stored = await readJsonFile(CATALOG_FILE);
+    if (stored === null) return withStock(defaultCatalog, await readStock());
+    const catalog = validateCatalog(stored);
+    reportMissingImages(catalog);
+    return withStock(catalog, await readStock());
+}
+
+/** The live catalog, read once per request. */
+export const getCatalog = cache(readCatalog);
+
+type CatalogChange = { ok: true; catalog: Catalog } | { ok: false };
+
+/**
+ * Apply an admin edit (see applyCatalogEdit) to the live catalog and store
+ * the result. An edit that leaves the catalog invalid is refused like one
+ * that fails its own checks, with the problem in the admin's language (`t`).
+ */
+export async function editCatalog(edit: (catalog: Catalog) => CatalogEdit, t: Translate): Promise<CatalogEdit> {
+    return queued(async (): Promise<CatalogEdit> => {
+        const current = await readCatalog();
+        const result = edit(current);
+        if (!result.ok || result.catalog === current) return result;
+        // Catch anything the edit's own checks missed before it reaches the customizer
+        try {
+            validateCatalog(result.catalog);
+        } catch (err) {
+            return { ok: false, error: t("api.catalog.invalidResult", { details: (err as Error).message }), status: 400 };
+        }
+        await writeJsonFile(CATALOG_FILE, result.catalog);
+        await saveStockChanges(current, result.catalog);
+        return result;
+    });
+}
+
+/**
+ * Apply a change in stock (an order taking its pieces, see reserveStock) to
+ * the live catalog. Only the changed counts are stored, never the catalog.
+ */
+export async function editStock<T extends CatalogChange>(edit: (catalog: Catalog) => T): Promise<T> {
+    return queued(async () => {
+        const current = await readCatalog();
+        const result = edit(current);
+        if (result.ok && result.catalog !== current) await saveStockChanges(current, result.catalog);
+        return result;
+    });
+}
+
+// -------------------
+// ASSETS
+// -------------------
+/** User-facing error for bytes that aren't a usable catalog image, or null. */
+export function validateAsset(bytes: Buffer, t: Translate): string | null {
+    const size = pngSize(bytes);
+    if (!size) return t("api.image.notPng");
+    if (Math.max(size.width, size.height) > MAX_ASSET_PX) return t("api.image.resolutionHigh", { max: MAX_ASSET_PX });
+    return null;
+}
+
+/** Store a validated PNG and return the URL it's served from. */
+export async function saveAsset(bytes: Buffer): Promise<string> {
+    return assetUrl(await savePngByContent(CATALOG_ASSETS_DIR, bytes));
+}
+
+export async function readAsset(id: string): Promise<Buffer | null> {
+    if (!ASSET_ID_PATTERN.test(id)) return null;
+    try {
+        return await fs.readFile(catalogAssetPath(id));
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+    }
+}
@@ -0,0 +1,52 @@
+import { Base, Catalog, Charm, getBase, getCharm, refusingRules, SlotTemplate } from "./catalog";
+import { DesignState } from "./design";
+import { LocalizedText, Translate } from "./i18n";
+import { designCharmIds } from "./pricing";
+
+// Which charms a design's base allows (see CharmRules in catalog.ts). The
+// customizer refuses a disallowed charm as it's picked or dropped; the order
+// API refuses designs that still have one, e.g. after switching bases or
+// from a link shared before the rules changed.
+
+export type CompatibilityIssue = {
+    charm: string; // Names, for messages
+    base: string;
+    slot?: string; // Label of the slot whose own rules refuse the charm
+    reason?: LocalizedText; // The rules' own explanation, if they have one
+};
+
+/** Why a charm can't go on a base (in `slot`, or anywhere in manual mode with null); null if it can. */
+export function charmRefusal(base: Base, slot: SlotTemplate | null, charm: Charm): CompatibilityIssue | null {
+    const rules = refusingRules(base, slot, charm);
+    if (!rules) return null;
+    return {
+        charm: charm.name,
+        base: base.name,
+        ...(slot && rules === slot ? { slot: slot.label } : {}),
+        ...(rules.reason ? { reason: rules.reason } : {}),
+    };
+}
+
+/** The charms a design uses that its base doesn't allow, one issue each. */
+export function compatibilityIssues(design: DesignState, catalog: Catalog): CompatibilityIssue[] {
+    const base = getBase(catalog, design.baseId);
+    if (!base) return [];
+    const refusals = design.mode === 'fixed'
+        ? base.slots.map(slot => {
+            const charm = design.slots[slot.id] ? getCharm(catalog, design.slots[slot.id]) : undefined;
+            return charm ? charmRefusal(base, slot, charm) : null;
+        })
+        : [...new Set(designCharmIds(design))].map(id => {
+            const charm = getCharm(catalog, id);
+            return charm ? charmRefusal(base, null, charm) : null;
+        });
+    return refusals.filter(issue => issue !== null);
+}
+
+/** User-facing message, for the customizer and the order API. */
+export function describeRefusal(issue: CompatibilityIssue, t: Translate): string {
+    const message = issue.slot
+        ? t("compat.refusedSlot", { name: issue.charm, slot: issue.slot, base: issue.base })
+        : t("compat.refused", { name: issue.charm, base: issue.base });
+    return issue.reason ? `${message} ${issue.reason[t.locale]}` : message;
+}
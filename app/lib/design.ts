@@ -0,0 +1,107 @@
+import { Base, baseProductType, Catalog, defaultCatalog, getBase, getCharm, listedBases, ProductType, slotAccepts } from "./catalog";
+import { cleanText, TextStyle } from "./text";
+
+// Customizer design model, shared by the editor and anything that
+// needs to read a design back (share links, orders).
+
+export type Mode = 'fixed' | 'manual';
+
+// Position and transform shared by every manual-mode item
+export type ItemTransform = {
+    id: string;
+    x: number;
+    y: number;
+    z: number; // Scale (width)
+    rotation: number; // Degrees, clockwise
+    flipX: boolean;
+    locked?: boolean; // Editor-only: excluded from hit testing
+};
+
+export type CharmItem = ItemTransform & {
+    type: 'charm';
+    charmId: string;
+};
+
+export type TextItem = ItemTransform & TextStyle & {
+    type: 'text';
+};
+
+// A customer's own image, stored on the server (see upload.ts)
+export type UploadItem = ItemTransform & {
+    type: 'upload';
+    uploadId: string;
+};
+
+export type DesignItem = CharmItem | TextItem | UploadItem;
+
+export type DesignState = {
+    mode: Mode;
+    baseId: string;
+    slots: Record<string, string>; // Slot ID (from the base's template) -> charm ID
+    slotText: TextStyle | null; // Fixed mode: the base's text slot, if it has one
+    manualItems: DesignItem[];
+    zoom: number;
+};
+
+export const INITIAL_DESIGN: DesignState = {
+    mode: 'fixed',
+    baseId: defaultCatalog.bases[0].id,
+    slots: {},
+    slotText: null,
+    manualItems: [],
+    zoom: 0.65,
+};
+
+/** A blank design on the first offered base of a product type. */
+export const initialDesignFor = (productType: ProductType, catalog: Catalog): DesignState => ({
+    ...INITIAL_DESIGN,
+    baseId: listedBases(catalog, productType.id)[0].id,
+    zoom: productType.zoom,
+});
+
+/** The product type a design is for, from its base. */
+export function designProductType(design: DesignState, catalog: Catalog): ProductType {
+    const base = getBase(catalog, design.baseId);
+    return base ? baseProductType(catalog, base) : catalog.productTypes[0];
+}
+
+export const customizerHref = (productTypeId: string) => `/customizer/${productTypeId}`;
+
+/** Keep only the slot assignments the base's template can still hold. */
+export function fitSlots(slots: DesignState["slots"], base: Base, catalog: Catalog): DesignState["slots"] {
+    const fitted: DesignState["slots"] = {};
+    for (const slot of base.slots) {
+        const charm = slots[slot.id] ? getCharm(catalog, slots[slot.id]) : undefined;
+        if (charm && slotAccepts(base, slot, charm)) fitted[slot.id] = charm.id;
+    }
+    return fitted;
+}
+
+/**
+ * Fit a design's text to a base's text rules: cut to its character limit,
+ * and drop it where the base doesn't take text (or, in fixed mode, has no
+ * text slot).
+ */
+export function fitText(design: DesignState, base: Base): Pick<DesignState, "slotText" | "manualItems"> {
+    const rules = base.text;
+    const fit = <T extends TextStyle>(style: T): T | null => {
+        const text = rules ? cleanText(style.text, rules.maxLength) : "";
+        return text ? { ...style, text } : null;
+    };
+    return {
+        slotText: design.slotText && rules?.slot ? fit(design.slotText) : null,
+        manualItems: design.manualItems.flatMap((item): DesignItem[] => {
+            if (item.type !== 'text') return [item];
+            const fitted = fit(item);
+            return fitted ? [fitted] : [];
+        }),
+    };
+}
+
+// Helper: Safe ID Generator
+export const generateId = () => {
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+        return crypto.randomUUID();
+    }
+    return Math.random().toString(36).substring(2, 15);
+};
@@ -0,0 +1,190 @@
+import { Catalog } from "./catalog";
+import { DesignState, designProductType, generateId } from "./design";
+import { decodeDesign, encodeDesign } from "./share";
+
+// Designs kept in the browser's localStorage: the customizer's autosaved drafts,
+// the customer's named "My designs", the cart of designs to order together and
+// the charms they used most recently.
+// Designs are stored in the share-link encoding (see share.ts), so they stay
+// compact, versioned and are re-checked against the catalog when read back.
+// Browser-only.
+
+const DRAFT_KEY = "ongoing:draft";
+const GALLERY_KEY = "ongoing:designs";
+const RECENT_CHARMS_KEY = "ongoing:recent-charms";
+const CART_KEY = "ongoing:cart";
+// Fired on this tab after a list changes; other tabs get a "storage" event
+const GALLERY_CHANGE_EVENT = "ongoing:designs-change";
+const RECENT_CHANGE_EVENT = "ongoing:recent-charms-change";
+const CART_CHANGE_EVENT = "ongoing:cart-change";
+const MAX_RECENT_CHARMS = 12;
+
+export type SavedDesign = {
+    id: string;
+    name: string;
+    design: string; // Encoded design
+    thumbnail: string; // Image data URL
+    updatedAt: string;
+};
+
+// localStorage can throw (private mode, quota exceeded, disabled storage)
+function read(key: string): string | null {
+    try {
+        return localStorage.getItem(key);
+    } catch {
+        return null;
+    }
+}
+
+function write(key: string, value: string): boolean {
+    try {
+        localStorage.setItem(key, value);
+        return true;
+    } catch (err) {
+        console.error(`Failed to write ${key} to localStorage`, err);
+        return false;
+    }
+}
+
+// A JSON array in localStorage, kept in sync across tabs. Reads are cached
+// by the raw string so repeated reads return the same array, as
+// useSyncExternalStore needs (see useStoredList.ts). Invalid entries are
+// dropped on read.
+export type StoredList<T> = {
+    list: () => T[];
+    write: (items: T[]) => boolean;
+    subscribe: (onChange: () => void) => () => void;
+};
+
+function storedList<T>(key: string, changeEvent: string, isItem: (value: unknown) => value is T): StoredList<T> {
+    let cachedRaw: string | null = null;
+    let cached: T[] = [];
+    return {
+        list: () => {
+            const raw = read(key);
+            if (raw !== cachedRaw) {
+                cachedRaw = raw;
+                try {
+                    const parsed: unknown = raw ? JSON.parse(raw) : [];
+                    cached = Array.isArray(parsed) ? parsed.filter(isItem) : [];
+                } catch {
+                    cached = [];
+                }
+            }
+            return cached;
+        },
+        write: (items) => {
+            if (!write(key, JSON.stringify(items))) return false;
+            window.dispatchEvent(new Event(changeEvent));
+            return true;
+        },
+        subscribe: (onChange) => {
+            window.addEventListener("storage", onChange);
+            window.addEventListener(changeEvent, onChange);
+            return () => {
+                window.removeEventListener("storage", onChange);
+                window.removeEventListener(changeEvent, onChange);
+            };
+        },
+    };
+}
+
+// -------------------
+// DRAFT
+// -------------------
+// One draft per product type, so switching products keeps the work on each
+const draftKey = (productTypeId: string) => `${DRAFT_KEY}:${productTypeId}`;
+
+export function loadDraft(catalog: Catalog, productTypeId: string): DesignState | null {
+    const draft = decodeDesign(read(draftKey(productTypeId)), catalog);
+    // A catalog edit may have moved the draft's base to another product type
+    return draft && designProductType(draft, catalog).id === productTypeId ? draft : null;
+}
+
+export const saveDraft = (design: DesignState, productTypeId: string) => write(draftKey(productTypeId), encodeDesign(design));
+
+// -------------------
+// MY DESIGNS
+// -------------------
+const isSavedDesign = (value: unknown): value is SavedDesign => {
+    const v = value as Record<string, unknown> | null;
+    return !!v && ["id", "name", "design", "thumbnail", "updatedAt"].every(key => typeof v[key] === "string");
+};
+
+/** Saved designs, most recently updated first. */
+export const designsStore = storedList(GALLERY_KEY, GALLERY_CHANGE_EVENT, isSavedDesign);
+
+/** Save a new named design. Returns null when the browser storage is full. */
+export function saveDesign(name: string, design: DesignState, thumbnail: string): SavedDesign | null {
+    const saved: SavedDesign = {
+        id: generateId(),
+        name,
+        design: encodeDesign(design),
+        thumbnail,
+        updatedAt: new Date().toISOString(),
+    };
+    return designsStore.write([saved, ...designsStore.list()]) ? saved : null;
+}
+
+/** Copy a saved design under a new name (e.g. "<name> (copy)"). */
+export function duplicateDesign(id: string, name: string): boolean {
+    const source = designsStore.list().find(d => d.id === id);
+    if (!source) return false;
+    const copy: SavedDesign = { ...source, id: generateId(), name, updatedAt: new Date().toISOString() };
+    return designsStore.write([copy, ...designsStore.list()]);
+}
+
+export function deleteDesign(id: string): boolean {
+    return designsStore.write(designsStore.list().filter(d => d.id !== id));
+}
+
+/** Decode a saved design; null if it no longer fits the catalog. */
+export const openDesign = (saved: SavedDesign, catalog: Catalog) => decodeDesign(saved.design, catalog);
+
+// -------------------
+// CART
+// -------------------
+// Designs to order together, each with its own quantity (see quoteOrder)
+export type CartItem = {
+    id: string;
+    design: string; // Encoded design
+    thumbnail: string; // Image data URL
+    quantity: number;
+};
+
+const isCartItem = (value: unknown): value is CartItem => {
+    const v = value as Record<string, unknown> | null;
+    return !!v && ["id", "design", "thumbnail"].every(key => typeof v[key] === "string") && Number.isInteger(v.quantity) && (v.quantity as number) >= 1;
+};
+
+/** The cart, in the order designs were added. */
+export const cartStore = storedList(CART_KEY, CART_CHANGE_EVENT, isCartItem);
+
+/** Add a design to the cart. Returns null when the browser storage is full. */
+export function addToCart(design: DesignState, quantity: number, thumbnail: string): CartItem | null {
+    const item: CartItem = { id: generateId(), design: encodeDesign(design), thumbnail, quantity };
+    return cartStore.write([...cartStore.list(), item]) ? item : null;
+}
+
+/** Change a cart item's design or quantity; false when it's gone or the storage is full. */
+export function updateCartItem(id: string, patch: Partial<Omit<CartItem, "id">>): boolean {
+    const items = cartStore.list();
+    if (!items.some(item => item.id === id)) return false;
+    return cartStore.write(items.map(item => item.id === id ? { ...item, ...patch } : item));
+}
+
+export function removeFromCart(id: string): boolean {
+    return cartStore.write(cartStore.list().filter(item => item.id !== id));
+}
+
+export const clearCart = () => cartStore.write([]);
+
+// -------------------
+// RECENT CHARMS
+// -------------------
+/** IDs of the charms used most recently, newest first. May include charms no longer in the catalog. */
+export const recentCharmsStore = storedList(RECENT_CHARMS_KEY, RECENT_CHANGE_EVENT, (id): id is string => typeof id === "string");
+
+export function addRecentCharm(charmId: string) {
+    recentCharmsStore.write([charmId, ...recentCharmsStore.list().filter(id => id !== charmId)].slice(0, MAX_RECENT_CHARMS));
+}
@@ -0,0 +1,46 @@
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Helpers shared by the file-based stores (orders, catalog, stock, uploads).
+// Server-only.
+
+/** Write a file in one step: to a temp file first, so a crash mid-write can't leave half of it. */
+export async function writeFileAtomic(file: string, data: string | Buffer) {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}-${randomBytes(4).toString("hex")}.tmp`;
+    await fs.writeFile(tmp, data);
+    await fs.rename(tmp, file);
+}
+
+/** Parsed contents of a JSON file, or null when there's no file. */
+export async function readJsonFile(file: string): Promise<unknown> {
+    try {
+        return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+    }
+}
+
+export const writeJsonFile = (file: string, value: unknown) => writeFileAtomic(file, JSON.stringify(value, null, 2));
+
+/**
+ * Store a PNG in `dir` named by a hash of its bytes and return that ID.
+ * Storing the same bytes again reuses the file, and a file never changes.
+ */
+export async function savePngByContent(dir: string, bytes: Buffer): Promise<string> {
+    const id = createHash("sha256").update(bytes).digest("hex").slice(0, 32);
+    await writeFileAtomic(path.join(dir, `${id}.png`), bytes);
+    return id;
+}
+
+/** Runs tasks one after another, so concurrent read-modify-writes can't drop each other's changes. */
+export function writeLock(): <T>(task: () => Promise<T>) => Promise<T> {
+    let queue: Promise<unknown> = Promise.resolve();
+    return task => {
+        const run = queue.then(task);
+        queue = run.catch(() => { });
+        return run;
+    };
+}
@@ -0,0 +1,226 @@
+import { CanvasLayout } from "./catalog";
+import { DesignItem } from "./design";
+
+// Canvas geometry for manual-mode items.
+//
+// All coordinates are normalized to the canvas width: x runs 0..1 and y runs
+// 0..aspect of the product type's CanvasLayout (0..1 on a square canvas). An item is drawn
+// centered on (x, y), `z` wide, `z * aspect` tall, rotated by `rotation`
+// degrees around its center and optionally mirrored horizontally.
+
+export type Point = { x: number; y: number };
+export type TransformHandle = 'move' | 'scale' | 'rotate';
+
+export const MIN_SCALE = 0.05;
+export const MAX_SCALE = 0.8;
+
+// Distance of the rotate handle above the item's top edge, in canvas pixels
+export const ROTATE_HANDLE_OFFSET = 36;
+
+export const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+// Wrap to (-180, 180] so numeric inputs stay readable
+export const normalizeRotation = (deg: number) => {
+    const wrapped = ((deg % 360) + 360) % 360;
+    return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+export const clampScale = (z: number) => Math.min(Math.max(z, MIN_SCALE), MAX_SCALE);
+
+export function itemSize(item: DesignItem, aspect: number) {
+    return { w: item.z, h: item.z * aspect };
+}
+
+/** Convert a canvas point into the item's local (unrotated, centered) frame. */
+export function toLocal(point: Point, item: DesignItem): Point {
+    const dx = point.x - item.x;
+    const dy = point.y - item.y;
+    const rad = -toRadians(item.rotation);
+    return {
+        x: dx * Math.cos(rad) - dy * Math.sin(rad),
+        y: dx * Math.sin(rad) + dy * Math.cos(rad),
+    };
+}
+
+/** Convert a point in the item's local frame back to canvas coordinates. */
+export function toCanvas(local: Point, item: DesignItem): Point {
+    const rad = toRadians(item.rotation);
+    return {
+        x: item.x + local.x * Math.cos(rad) - local.y * Math.sin(rad),
+        y: item.y + local.x * Math.sin(rad) + local.y * Math.cos(rad),
+    };
+}
+
+/** Bounding-box hit test that respects rotation. */
+export function hitsItem(point: Point, item: DesignItem, aspect: number): boolean {
+    const local = toLocal(point, item);
+    const { w, h } = itemSize(item, aspect);
+    return Math.abs(local.x) <= w / 2 && Math.abs(local.y) <= h / 2;
+}
+
+/** Positions of the selection handles, in canvas coordinates. */
+export function handlePositions(item: DesignItem, aspect: number, canvasSize: number, zoom: number) {
+    const { w, h } = itemSize(item, aspect);
+    const rotateOffset = ROTATE_HANDLE_OFFSET / zoom / canvasSize;
+    return {
+        corners: [
+            toCanvas({ x: -w / 2, y: -h / 2 }, item),
+            toCanvas({ x: w / 2, y: -h / 2 }, item),
+            toCanvas({ x: w / 2, y: h / 2 }, item),
+            toCanvas({ x: -w / 2, y: h / 2 }, item),
+        ],
+        rotate: toCanvas({ x: 0, y: -h / 2 - rotateOffset }, item),
+    };
+}
+
+/** Which transform handle of the selected item (if any) is under the point. */
+export function hitHandle(point: Point, item: DesignItem, aspect: number, canvasSize: number, zoom: number): TransformHandle | null {
+    const radius = 12 / zoom / canvasSize;
+    const near = (p: Point) => (point.x - p.x) ** 2 + (point.y - p.y) ** 2 <= radius * radius;
+    const handles = handlePositions(item, aspect, canvasSize, zoom);
+    if (near(handles.rotate)) return 'rotate';
+    if (handles.corners.some(near)) return 'scale';
+    return null;
+}
+
+// -------------------
+// ALPHA HIT TESTING
+// -------------------
+type AlphaMask = { width: number; height: number; alpha: Uint8Array };
+
+// What an item is drawn from: a charm image, or text rendered to a canvas (see text.ts)
+export type ItemImage = HTMLImageElement | HTMLCanvasElement;
+
+// Masks are sampled at reduced resolution; plenty for pointer accuracy
+const MASK_MAX_SIZE = 256;
+// Alpha (0-255) below which a pixel counts as transparent
+const ALPHA_THRESHOLD = 16;
+
+const alphaMasks = new WeakMap<ItemImage, AlphaMask | null>();
+
+function getAlphaMask(img: ItemImage): AlphaMask | null {
+    if (alphaMasks.has(img)) return alphaMasks.get(img)!;
+
+    let mask: AlphaMask | null = null;
+    try {
+        const ratio = Math.min(1, MASK_MAX_SIZE / Math.max(img.width, img.height));
+        const width = Math.max(1, Math.round(img.width * ratio));
+        const height = Math.max(1, Math.round(img.height * ratio));
+        const canvas = document.createElement("canvas");
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext("2d", { willReadFrequently: true });
+        if (ctx) {
+            ctx.drawImage(img, 0, 0, width, height);
+            const { data } = ctx.getImageData(0, 0, width, height);
+            const alpha = new Uint8Array(width * height);
+            for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+            mask = { width, height, alpha };
+        }
+    } catch (err) {
+        // e.g. a tainted canvas; callers fall back to the bounding box
+        console.error("Failed to build alpha mask", err);
+    }
+
+    alphaMasks.set(img, mask);
+    return mask;
+}
+
+/**
+ * Hit test against the item's opaque pixels. Falls back to the rotated
+ * bounding box when the image (or its mask) isn't available yet.
+ */
+export function hitsOpaquePixel(point: Point, item: DesignItem, img: ItemImage | undefined): boolean {
+    const aspect = img ? img.height / img.width : 1;
+    if (!hitsItem(point, item, aspect)) return false;
+    if (!img) return true;
+
+    const mask = getAlphaMask(img);
+    if (!mask) return true;
+
+    const local = toLocal(point, item);
+    const { w, h } = itemSize(item, aspect);
+    let u = local.x / w + 0.5;
+    const v = local.y / h + 0.5;
+    if (item.flipX) u = 1 - u;
+
+    const px = Math.min(mask.width - 1, Math.max(0, Math.floor(u * mask.width)));
+    const py = Math.min(mask.height - 1, Math.max(0, Math.floor(v * mask.height)));
+    return mask.alpha[py * mask.width + px] >= ALPHA_THRESHOLD;
+}
+
+// -------------------
+// BASE & PRINTABLE AREA
+// -------------------
+export type Rect = { x: number; y: number; width: number; height: number };
+
+/** Where the base image lands on the canvas, given its height/width ratio. */
+export function baseRect(baseAspect: number, layout: CanvasLayout): Rect {
+    const height = layout.baseScale * baseAspect;
+    return { x: (1 - layout.baseScale) / 2, y: (layout.aspect - height) / 2, width: layout.baseScale, height };
+}
+
+/** Convert an area given in base-image fractions into canvas coordinates. */
+export function toCanvasRect(area: Rect, baseAspect: number, layout: CanvasLayout): Rect {
+    const base = baseRect(baseAspect, layout);
+    return {
+        x: base.x + area.x * base.width,
+        y: base.y + area.y * base.height,
+        width: area.width * base.width,
+        height: area.height * base.height,
+    };
+}
+
+/** Convert a point given in base-image fractions into canvas coordinates. */
+export function toCanvasPoint(point: Point, baseAspect: number, layout: CanvasLayout): Point {
+    const base = baseRect(baseAspect, layout);
+    return { x: base.x + point.x * base.width, y: base.y + point.y * base.height };
+}
+
+export const isInsideRect = (point: Point, rect: Rect) =>
+    point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height;
+
+export const clampToRect = (point: Point, rect: Rect): Point => ({
+    x: Math.min(Math.max(point.x, rect.x), rect.x + rect.width),
+    y: Math.min(Math.max(point.y, rect.y), rect.y + rect.height),
+});
+
+// -------------------
+// SNAPPING
+// -------------------
+export type Guides = { x: number[]; y: number[] };
+
+export const GRID_SIZE = 0.025;
+
+/**
+ * Snap a dragged item's center to the nearest target on each axis within
+ * `threshold`. Targets are the center of a canvas `canvasAspect` tall, the
+ * printable area's center and the centers of the other items; with `grid` on,
+ * the grid is the fallback. Returns the snapped point plus the guide lines to draw.
+ */
+export function snapPoint(point: Point, others: Point[], area: Rect | null, canvasAspect: number, threshold: number, grid: boolean): { point: Point; guides: Guides } {
+    const targetsX = [0.5, ...others.map(o => o.x)];
+    const targetsY = [canvasAspect / 2, ...others.map(o => o.y)];
+    if (area) {
+        targetsX.push(area.x + area.width / 2);
+        targetsY.push(area.y + area.height / 2);
+    }
+
+    const snapAxis = (value: number, targets: number[]) => {
+        let best: number | null = null;
+        for (const t of targets) {
+            if (Math.abs(t - value) <= threshold && (best === null || Math.abs(t - value) < Math.abs(best - value))) best = t;
+        }
+        return best;
+    };
+
+    const sx = snapAxis(point.x, targetsX);
+    const sy = snapAxis(point.y, targetsY);
+    return {
+        point: {
+            x: sx ?? (grid ? Math.round(point.x / GRID_SIZE) * GRID_SIZE : point.x),
+            y: sy ?? (grid ? Math.round(point.y / GRID_SIZE) * GRID_SIZE : point.y),
+        },
+        guides: { x: sx === null ? [] : [sx], y: sy === null ? [] : [sy] },
+    };
+}
@@ -0,0 +1,36 @@
+import { MessageKey, messages } from "./messages";
+
+// Locale handling shared by server and client code. The chosen locale lives in
+// a cookie (set by the Navbar switcher) so server-rendered pages and the
+// client agree on it; see serverLocale.ts and LocaleProvider.tsx.
+
+export type Locale = keyof typeof messages;
+
+export const LOCALES = Object.keys(messages) as Locale[];
+export const DEFAULT_LOCALE: Locale = "id";
+export const LOCALE_COOKIE = "locale";
+
+// For Intl formatting (dates); prices stay in IDR for every locale
+export const INTL_LOCALES: Record<Locale, string> = { id: "id-ID", en: "en-GB" };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export type TranslateParams = Record<string, string | number>;
+export type Translate = {
+    (key: MessageKey, params?: TranslateParams): string;
+    locale: Locale; // For text kept outside messages.ts, see LocalizedText
+};
+
+// Text that comes with the data rather than from messages.ts, e.g. the
+// catalog's charm rule reasons: one string per locale.
+export type LocalizedText = Record<Locale, string>;
+
+export function createTranslator(locale: Locale): Translate {
+    const table = messages[locale];
+    const translate = (key: MessageKey, params?: TranslateParams) => {
+        const text = table[key];
+        if (!params) return text;
+        return text.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+    };
+    return Object.assign(translate, { locale });
+}
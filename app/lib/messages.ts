@@ -0,0 +1,884 @@
+// UI copy for every locale. Indonesian is the source of truth: its keys define
+// `MessageKey`, and every other locale must translate all of them.
+// Placeholders look like `{name}` and are filled in by `createTranslator`.
+// Catalog data (product, charm and slot names) is not translated here.
+
+const id = {
+    // Metadata
+    "meta.description": "Buat keychain custom-mu sendiri dengan alat desain interaktif kami.",
+
+    // Navbar
+    "nav.home": "Beranda",
+    "nav.customize": "Custom Keychain",
+    "nav.products": "Produk",
+    "nav.contact": "Kontak",
+    "nav.start": "Mulai Custom",
+    "nav.toggleMenu": "Buka/tutup menu",
+    "nav.language": "Bahasa",
+
+    // Hero
+    "hero.badge": "✨ Koleksi Baru Tersedia",
+    "hero.titleLead": "Desain Sendiri",
+    "hero.titleHighlight": "Keychain Unikmu",
+    "hero.intro": "Expresikan gayamu! Pilih base, tambahkan hingga 3 charm hewan lucu, dan lihat hasilnya secara langsung. Pesan custom keychain-mu sekarang.",
+    "hero.start": "Mulai Custom Sekarang",
+    "hero.catalog": "Lihat Katalog",
+    "hero.customers": "Pelanggan Puas",
+    "hero.customerAlt": "Pelanggan",
+    "hero.imageAlt": "Koleksi Custom Keychain",
+
+    // Product showcase
+    "showcase.title": "Keychain Kami",
+    "showcase.subtitle": "Inspirasi untuk desainmu selanjutnya",
+    "showcase.cta": "Buat Design Sendiri",
+    "showcase.priceFrom": "Mulai dari {price}",
+
+    // Why us
+    "why.title": "Kenapa Ongoing Project?",
+    "why.subtitle": "Kami memberikan pengalaman kustomisasi terbaik dengan kualitas produk yang tidak main-main.",
+    "why.preview.title": "Preview Real-time",
+    "why.preview.desc": "Lihat hasil desainmu seketika. Geser, pilih, dan sesuaikan sesuka hati sebelum memesan.",
+    "why.quality.title": "Kualitas Premium",
+    "why.quality.desc": "Dibuat dengan bahan akrilik berkualitas tinggi dan print tajam yang tahan lama.",
+    "why.personal.title": "Unik & Personal",
+    "why.personal.desc": "Kombinasi tak terbatas. Buat keychain yang benar-benar mewakili kepribadianmu.",
+
+    // Other products
+    "other.title": "Produk Lainnya",
+    "other.tagline": "Merchandise Resmi",
+    "other.previous": "Sebelumnya",
+    "other.next": "Berikutnya",
+
+    // Product pages
+    "product.back": "Kembali ke produk",
+    "product.image": "{name}, gambar {index}",
+    "product.showImage": "Lihat gambar {index}",
+    "product.variant": "Varian",
+    "product.decrease": "Kurangi jumlah",
+    "product.increase": "Tambah jumlah",
+    "product.order": "Pesan via WhatsApp · {amount}",
+    "product.customize": "Atau desain {product} sendiri",
+    "product.whatsappGreeting": "Halo Ongoing Project! Saya mau order {product}.",
+    "product.whatsappVariant": "*Varian:* {variant}",
+
+    // Footer
+    "footer.menu": "Menu",
+    "footer.customize": "Custom",
+    "footer.allProducts": "Semua Produk",
+    "footer.follow": "Ikuti Kami",
+    "footer.rights": "Hak cipta dilindungi.",
+
+    // Customizer
+    "customizer.heading": "Studio Kustomisasi {product}",
+    "customizer.invalidShareLink": "Link desain tidak valid atau sudah kedaluwarsa. Memulai desain baru.",
+    "customizer.readOnly": "Mode lihat saja: desain ini tidak bisa diubah di sini.",
+    "customizer.close": "Tutup",
+    "customizer.productTypes": "Jenis produk",
+    "customizer.chooseBase": "Pilih Base",
+    "customizer.chooseCharms": "Pilih Charms",
+    "customizer.modeFixed": "Template",
+    "customizer.modeManual": "Free Drag",
+    "customizer.undo": "Urungkan",
+    "customizer.redo": "Ulangi",
+    "customizer.editor": "Editor",
+    "customizer.preview": "Preview",
+    "customizer.grid": "Grid",
+    "customizer.editingActive": "● Mode Edit Aktif",
+    "customizer.zoomIn": "Perbesar",
+    "customizer.zoomOut": "Perkecil",
+    "customizer.baseLoadError": "Error: Gagal memuat gambar base.",
+    "customizer.unknownPath": "Path tidak diketahui",
+    "customizer.charm": "Charm",
+    "customizer.canvasRole": "Canvas desain {product}",
+    "customizer.canvasLabel": "Canvas desain",
+    "customizer.canvasLabelManual": "Canvas desain, {count} charm",
+    "customizer.canvasLabelSelected": "Canvas desain, {count} charm, terpilih {name}",
+    "customizer.helpManual": "Drag charm untuk mengatur posisi (Alt = tanpa snap), tarik sudut untuk ukuran dan gagang atas untuk rotasi (Shift = per 15°). Keyboard: Tab untuk memilih charm, panah untuk menggeser (Shift = lebih jauh), Delete untuk menghapus.",
+    "customizer.helpPreview": "Mode Preview aktif. Kembali ke Editor untuk mengubah.",
+    "customizer.helpFixed": "Pilih slot di kanan untuk menambahkan charm secara otomatis.",
+    "customizer.outOfBounds": "{count} charm berada di luar area cetak (garis putus-putus) dan tidak bisa diproduksi. Geser kembali ke dalam area.",
+    "customizer.lowResolution": "{count} gambar upload akan tercetak buram di ukuran ini (di bawah {dpi} DPI). Perkecil ukurannya atau upload gambar yang lebih besar.",
+    "customizer.uploadMissing": "{count} gambar upload di desain ini sudah tidak tersimpan di server kami. Hapus lalu upload ulang gambarnya sebelum memesan.",
+    "customizer.dragHint": "Drag gambar ke canvas (Editor Mode Only).",
+    "customizer.addToCanvas": "Tambah {name} ke tengah canvas",
+    "customizer.clearCharms": "Hapus Semua Charm",
+    "customizer.switchToEditor": "Beralih ke Editor Mode untuk menambah charm.",
+    "customizer.summary": "Ringkasan Pesanan",
+    "customizer.previewResult": "Preview Hasil",
+    "customizer.loading": "Memuat...",
+    "customizer.share": "Bagikan Link",
+    "customizer.shareCopied": "Link desain disalin!",
+    "customizer.sharePrompt": "Salin link desain ini:",
+    "customizer.reset": "Reset",
+    "customizer.exportFailed": "Export gagal.",
+
+    // Charm picker
+    "charms.search": "Cari charm...",
+    "charms.clearSearch": "Hapus pencarian",
+    "charms.categories": "Kategori charm",
+    "charms.all": "Semua",
+    "charms.recent": "Terakhir Dipakai",
+    "charms.noResults": "Tidak ada charm yang cocok.",
+
+    // Stock
+    "stock.soldOut": "Habis",
+    "stock.soldOutLabel": "{name} (habis)",
+    "stock.issuesTitle": "Desain ini belum bisa dipesan",
+    "stock.issue.soldOut": "{name} sedang habis.",
+    "stock.issue.hidden": "{name} sudah tidak tersedia.",
+    "stock.issue.short": "Stok {name} tinggal {count}.",
+    "stock.issuesHint": "Ganti bagian tersebut atau kurangi jumlah pesanan.",
+
+    // Compatibility
+    "compat.refused": "{name} tidak bisa dipasang di {base}.",
+    "compat.refusedSlot": "{name} tidak bisa dipasang di slot {slot} pada {base}.",
+    "compat.notForBase": "{name}: tidak cocok untuk base ini",
+
+    // Customizer: slots and selected charm
+    "slot.clear": "Hapus",
+    "slot.clearLabel": "Hapus charm slot {slot}",
+    "slot.charms": "Charm untuk slot {slot}",
+    "transform.title": "Item Terpilih",
+    "transform.locked": " (Terkunci)",
+    "transform.size": "Ukuran (%)",
+    "transform.rotation": "Rotasi (°)",
+    "transform.flip": "Balik Horizontal",
+
+    // Customizer: text
+    "text.add": "Tambah Teks",
+    "text.slot": "Teks (opsional)",
+    "text.label": "Teks",
+    "text.placeholder": "Nama kamu",
+    "text.default": "Nama",
+    "text.itemName": "Teks \"{text}\"",
+    "text.font": "Font",
+    "text.color": "Warna",
+    "text.customColor": "Warna lain",
+    "text.curve": "Lengkungan",
+
+    // Customizer: uploaded images
+    "upload.title": "Upload Gambar",
+    "upload.hint": "Foto hewan peliharaan atau logo. PNG atau JPEG, min. {min} px, maks. 10 MB.",
+    "upload.choose": "Pilih Gambar",
+    "upload.cancel": "Batalkan upload",
+    "upload.preview": "Preview gambar upload",
+    "upload.shape": "Bentuk potongan",
+    "upload.circle": "Lingkaran",
+    "upload.outline": "Ikuti Bentuk",
+    "upload.removeBackground": "Hapus latar polos",
+    "upload.tolerance": "Toleransi",
+    "upload.add": "Tambah ke Canvas",
+    "upload.uploading": "Mengupload...",
+    "upload.failed": "Upload gagal.",
+    "upload.errorCanvas": "Browser ini tidak bisa memproses gambar.",
+    "upload.itemName": "Gambar upload",
+    "upload.errorType": "Format gambar harus PNG atau JPEG.",
+    "upload.errorFileSize": "File terlalu besar (maks. 10 MB).",
+    "upload.errorDecode": "Gambar tidak bisa dibaca.",
+    "upload.errorResolution": "Resolusi gambar terlalu kecil untuk dicetak (min. {min} px).",
+    "upload.errorEmpty": "Tidak ada yang tersisa setelah latar dihapus. Turunkan toleransinya.",
+
+    // Customizer: screen reader announcements
+    "a11y.position": "posisi {x}% dari kiri, {y}% dari atas",
+    "a11y.added": "{name} ditambahkan di {position}.",
+    "a11y.slotCleared": "Slot {slot} dikosongkan.",
+    "a11y.slotFilled": "{name} dipasang di slot {slot}.",
+    "a11y.removed": "{name} dihapus.",
+    "a11y.selected": "{name} dipilih, lapisan {layer} dari {total}, {position}.",
+    "a11y.deselected": "Pilihan dibatalkan.",
+    "a11y.moved": "{name} di {position}.",
+
+    // Confirm dialogs
+    "confirm.cancel": "Batal",
+    "confirm.ok": "Ya, Lanjutkan",
+    "confirm.fixedMode.title": "Kembali ke Template Mode?",
+    "confirm.fixedMode.message": "Posisi manual Anda akan hilang jika kembali ke mode ini. Lanjutkan?",
+    "confirm.reset.title": "Reset Desain?",
+    "confirm.reset.message": "Semua perubahan akan dihapus dan kembali ke awal.",
+    "confirm.deleteDesign.title": "Hapus desain?",
+    "confirm.deleteDesign.message": "{name} akan dihapus dari browser ini.",
+    "confirm.removeCartItem.title": "Hapus dari keranjang?",
+    "confirm.removeCartItem.message": "Desain {number} akan dihapus dari keranjang.",
+
+    // Order form
+    "order.name": "Nama",
+    "order.contact": "Kontak",
+    "order.contactPlaceholder": "No. WhatsApp / Email",
+    "order.quantity": "Jumlah",
+    "order.missingFields": "Isi nama dan kontak terlebih dahulu.",
+    "order.failed": "Pesanan gagal dikirim.",
+    "order.sending": "Mengirim...",
+    "order.whatsapp": "Order via WhatsApp",
+    "order.whatsappCart": "Order {count} desain via WhatsApp",
+    "order.attachmentNote": "*Desain otomatis terlampir lewat link di pesan WhatsApp.",
+
+    // WhatsApp order message (*bold* is WhatsApp markup)
+    "whatsapp.greeting": "Halo Ongoing Project! Saya mau order custom {product}.",
+    "whatsapp.orderId": "*No. Order:* {id}",
+    "whatsapp.name": "*Nama:* {name}",
+    "whatsapp.quantity": "*Jumlah:* {count} pcs",
+    "whatsapp.perUnit": "*Rincian per pcs:*",
+    "whatsapp.discount": "*Diskon {percent}%:* -{amount}",
+    "whatsapp.total": "*Total:* {amount}",
+    "whatsapp.design": "Desain saya: {url}",
+    "whatsapp.item": "*Desain {number}:* {label}, {count} pcs × {amount}",
+    "whatsapp.itemLink": "Link desain: {url}",
+
+    // Price summary
+    "price.addOns": "Tambahan",
+    "price.breakdown": "Rincian Harga (per pcs)",
+    "price.breakdownCart": "Rincian Harga",
+    "price.subtotal": "Subtotal ({count} pcs)",
+    "price.discount": "Diskon {percent}%",
+    "price.total": "Total",
+    "price.nothingToOrder": "Belum ada desain yang bisa dipesan. Hapus desain yang tidak valid dari keranjang.",
+
+    // Layers
+    "layers.title": "Lapisan",
+    "layers.lock": "Kunci",
+    "layers.unlock": "Buka kunci",
+    "layers.duplicate": "Duplikat",
+    "layers.remove": "Hapus",
+
+    // Print export
+    "export.title": "Export Cetak",
+    "export.resolution": "Resolusi",
+    "export.transparent": "Latar transparan",
+    "export.dpiCapped": "Base ini terlalu besar untuk resolusi itu; gambar dibuat dengan {dpi} DPI.",
+    "export.sheet": "Lembar Produksi",
+    "export.vector": "{format} + Cut Line",
+
+    // Production sheet (see printExport.ts)
+    "sheet.orderId": "No. Order: {id}",
+    "sheet.notOrdered": "(belum dipesan)",
+    "sheet.customer": "Nama: {name}",
+    "sheet.quantity": "Jumlah: {count} pcs",
+    "sheet.printedAt": "Dicetak: {date}",
+    "sheet.scale": "Skala {scale} ({width} × {height} mm)",
+    "sheet.parts": "Daftar Part",
+    "sheet.base": "Base: {name} ({id})",
+    "sheet.position": "Tengah {x}, {y} mm · lebar {width} mm",
+    "sheet.rotation": "Rotasi {degrees}°",
+    "sheet.rotationFlipped": "Rotasi {degrees}° · dibalik horizontal",
+    "sheet.noParts": "Tanpa charm atau teks",
+    "sheet.continued": "{id} · Daftar Part (lanjutan) · halaman {page} dari {pages}",
+    "sheet.partText": "Teks \"{text}\" ({font}, {color})",
+    "sheet.partUpload": "Gambar upload ({url})",
+
+    // My designs
+    "designs.title": "Desain Saya",
+    "designs.namePlaceholder": "Nama desain",
+    "designs.defaultName": "Desain {number}",
+    "designs.copyName": "{name} (salinan)",
+    "designs.save": "Simpan",
+    "designs.localOnly": "Tersimpan di browser ini saja.",
+    "designs.empty": "Belum ada desain tersimpan.",
+    "designs.open": "Buka {name}",
+    "designs.duplicate": "Duplikat {name}",
+    "designs.delete": "Hapus {name}",
+    "designs.saved": "Desain {name} disimpan.",
+    "designs.opened": "Desain {name} dibuka.",
+    "designs.saveFailed": "Desain gagal disimpan.",
+    "designs.storageFull": "Penyimpanan browser penuh. Hapus beberapa desain lalu coba lagi.",
+    "designs.unavailable": "{name} berisi item yang sudah tidak tersedia.",
+    "designs.thisDesign": "Desain ini",
+    "designs.hasUnavailable": "Ada item yang habis atau tidak tersedia",
+    "designs.uploadMissing": "Ada gambar upload yang perlu diupload ulang",
+
+    // Cart
+    "cart.title": "Keranjang ({count} desain)",
+    "cart.item": "Desain {number}",
+    "cart.add": "Tambah ke keranjang",
+    "cart.update": "Simpan ke desain {number}",
+    "cart.hint": "Pesan beberapa desain sekaligus? Tambahkan satu per satu ke keranjang.",
+    "cart.notInCart": "Desain di canvas belum masuk keranjang.",
+    "cart.editing": "Sedang diedit",
+    "cart.editingHint": "Mengedit desain dari keranjang.",
+    "cart.unsaved": "Perubahan belum disimpan ke keranjang.",
+    "cart.stopEditing": "Selesai edit",
+    "cart.edit": "Edit {name}",
+    "cart.remove": "Hapus {name}",
+    "cart.quantity": "Jumlah {name}",
+    "cart.decrease": "Kurangi jumlah {name}",
+    "cart.increase": "Tambah jumlah {name}",
+    "cart.added": "Desain ditambahkan ke keranjang ({count} desain).",
+    "cart.updated": "Desain {number} di keranjang diperbarui.",
+    "cart.opened": "Desain {number} dibuka untuk diedit.",
+    "cart.full": "Keranjang penuh (maks. {max} desain).",
+    "cart.addFailed": "Desain gagal ditambahkan ke keranjang.",
+    "cart.invalid": "Berisi item yang sudah tidak ada",
+    "cart.uploadMissing": "Ada gambar upload yang perlu diupload ulang",
+    "cart.invalidIssue": "Desain {number} di keranjang berisi item yang sudah tidak ada. Hapus dari keranjang.",
+
+    // Admin
+    "admin.title": "Admin Ongoing Project",
+    "admin.orders": "Pesanan",
+    "admin.signOut": "Keluar",
+    "admin.signIn.title": "Masuk Admin",
+    "admin.signIn.password": "Password",
+    "admin.signIn.submit": "Masuk",
+    "admin.signIn.failed": "Gagal masuk.",
+    "admin.signIn.notConfigured": "Admin belum aktif. Set ADMIN_PASSWORD di environment server lalu restart.",
+    "admin.status.new": "Baru",
+    "admin.status.confirmed": "Dikonfirmasi",
+    "admin.status.inProduction": "Diproduksi",
+    "admin.status.shipped": "Dikirim",
+    "admin.filter": "Filter status",
+    "admin.filter.all": "Semua",
+    "admin.empty": "Belum ada pesanan.",
+    "admin.column.order": "Order",
+    "admin.column.date": "Tanggal",
+    "admin.column.customer": "Pelanggan",
+    "admin.column.product": "Produk",
+    "admin.column.quantity": "Jumlah",
+    "admin.column.total": "Total",
+    "admin.column.status": "Status",
+    "admin.back": "Kembali ke daftar pesanan",
+    "admin.order.title": "Pesanan {id}",
+    "admin.order.placed": "Dipesan {date}",
+    "admin.order.customer": "Pelanggan",
+    "admin.order.name": "Nama",
+    "admin.order.contact": "Kontak",
+    "admin.order.quantity": "Jumlah",
+    "admin.order.addOns": "Tambahan",
+    "admin.order.status": "Status",
+    "admin.order.statusFailed": "Status gagal disimpan.",
+    "admin.order.price": "Harga",
+    "admin.order.noQuote": "Harga tidak tercatat (pesanan lama).",
+    "admin.order.design": "Desain",
+    "admin.order.rendering": "Merender desain...",
+    "admin.order.renderFailed": "Desain gagal dirender.",
+    "admin.order.invalidDesign": "Desain ini berisi item yang sudah tidak ada di katalog, jadi tidak bisa ditampilkan.",
+    "admin.order.parts": "Daftar Part",
+    "admin.order.base": "Base: {name}",
+    "admin.order.partPosition": "Posisi {x} × {y} mm · lebar {width} mm · rotasi {rotation}°",
+    "admin.order.openCustomizer": "Buka di customizer (lihat saja)",
+    "admin.order.item": "Desain {number}",
+    "admin.order.pieces": "{count} pcs",
+    "admin.order.moreItems": "+{count} desain lain",
+    "admin.nav": "Menu admin",
+    "admin.catalog": "Katalog",
+    "admin.catalog.bases": "Base",
+    "admin.catalog.charms": "Charm",
+    "admin.catalog.addBase": "Tambah base",
+    "admin.catalog.addCharm": "Tambah charm",
+    "admin.catalog.edit": "Ubah",
+    "admin.catalog.shown": "Tampil",
+    "admin.catalog.hidden": "Disembunyikan",
+    "admin.catalog.column.item": "Item",
+    "admin.catalog.column.price": "Harga",
+    "admin.catalog.column.visibility": "Status",
+    "admin.catalog.back": "Kembali ke katalog",
+    "admin.catalog.newBase": "Base Baru",
+    "admin.catalog.newCharm": "Charm Baru",
+    "admin.catalog.editItem": "Ubah {name}",
+    "admin.catalog.id": "ID: {id}",
+    "admin.catalog.image": "Gambar",
+    "admin.catalog.imageHint": "PNG atau JPEG, maks. 10 MB. Gambar diperkecil dan thumbnail dibuat otomatis.",
+    "admin.catalog.chooseImage": "Pilih gambar",
+    "admin.catalog.replaceImage": "Ganti gambar",
+    "admin.catalog.uploading": "Mengunggah...",
+    "admin.catalog.uploadFailed": "Gambar gagal diunggah.",
+    "admin.catalog.name": "Nama",
+    "admin.catalog.price": "Harga (Rp)",
+    "admin.catalog.category": "Kategori",
+    "admin.catalog.tags": "Tag pencarian",
+    "admin.catalog.tagsHint": "Pisahkan dengan koma, mis. kuning, yellow",
+    "admin.catalog.productType": "Jenis produk",
+    "admin.catalog.template": "Tata letak dari",
+    "admin.catalog.templateHint": "Ukuran, area cetak, slot dan aturan teks disalin dari base ini.",
+    "admin.catalog.show": "Tampilkan di customizer dan halaman utama",
+    "admin.catalog.save": "Simpan",
+    "admin.catalog.saveFailed": "Perubahan gagal disimpan.",
+    "admin.catalog.stock": "Stok",
+    "admin.catalog.stockHint": "Jumlah yang tersisa; berkurang otomatis setiap ada pesanan. Kosongkan jika stok tidak dihitung.",
+    "admin.catalog.column.stock": "Stok",
+    "admin.catalog.soldOut": "Habis",
+
+    // API errors, in the request's language (see serverLocale.ts)
+    "api.invalidData": "Data tidak valid.",
+    "api.notFound": "Halaman tidak ditemukan.",
+    "api.signInRequired": "Silakan masuk sebagai admin.",
+    "api.adminDisabled": "Admin belum diaktifkan di server.",
+    "api.wrongPassword": "Password salah.",
+    "api.tooManyAttempts": "Terlalu banyak percobaan masuk. Silakan coba lagi nanti.",
+    "api.order.invalid": "Data pesanan tidak valid.",
+    "api.order.itemCount": "Pesanan harus berisi 1 sampai {max} desain.",
+    "api.order.design": "Desain tidak valid atau berisi item yang sudah tidak tersedia.",
+    "api.order.designNumbered": "Desain ke-{number} tidak valid atau berisi item yang sudah tidak tersedia.",
+    "api.order.quantity": "Jumlah desain harus antara 1 dan {max}.",
+    "api.order.quantityNumbered": "Jumlah desain ke-{number} harus antara 1 dan {max}.",
+    "api.order.name": "Nama wajib diisi (maks. {max} karakter).",
+    "api.order.contact": "Kontak wajib diisi (maks. {max} karakter).",
+    "api.order.addOns": "Pilihan tambahan tidak valid.",
+    "api.order.uploadMissing": "Gambar upload di desain tidak ditemukan. Upload ulang gambarnya.",
+    "api.order.saveFailed": "Pesanan gagal disimpan. Silakan coba lagi.",
+    "api.order.notFound": "Pesanan tidak ditemukan.",
+    "api.order.status": "Status tidak valid.",
+    "api.image.tooLarge": "File terlalu besar (maks. {max} MB).",
+    "api.image.invalid": "Data gambar tidak valid.",
+    "api.image.notPng": "File harus berupa gambar PNG.",
+    "api.image.resolutionLow": "Resolusi gambar terlalu kecil (min. {min} px).",
+    "api.image.resolutionHigh": "Resolusi gambar terlalu besar (maks. {max} px).",
+    "api.image.saveFailed": "Gambar gagal disimpan. Silakan coba lagi.",
+    "api.image.notFound": "Gambar tidak ditemukan.",
+    "api.upload.rateLimited": "Terlalu banyak upload. Silakan coba lagi nanti.",
+    "api.upload.storageFull": "Penyimpanan upload sedang penuh. Silakan coba lagi nanti.",
+    "api.catalog.saveFailed": "Katalog gagal disimpan. Silakan coba lagi.",
+    "api.catalog.invalidResult": "Perubahan ini membuat katalog tidak valid: {details}",
+    "api.catalog.name": "Nama wajib diisi (maks. {max} karakter).",
+    "api.catalog.price": "Harga harus berupa angka bulat, minimal 0.",
+    "api.catalog.hidden": "Status tampil tidak valid.",
+    "api.catalog.stock": "Stok harus berupa angka bulat, minimal 0 (kosongkan jika tidak dihitung).",
+    "api.catalog.image": "Gambar wajib diunggah.",
+    "api.catalog.thumbnail": "Thumbnail tidak valid.",
+    "api.catalog.category": "Kategori tidak valid.",
+    "api.catalog.tags": "Tag tidak valid (maks. {max}).",
+    "api.catalog.productType": "Jenis produk tidak valid.",
+    "api.catalog.template": "Pilih base contoh dari jenis produk yang sama.",
+    "api.catalog.lastBase": "Setidaknya satu base untuk jenis produk ini harus tetap tampil.",
+    "api.catalog.charmNotFound": "Charm tidak ditemukan.",
+    "api.catalog.baseNotFound": "Base tidak ditemukan.",
+};
+
+export type MessageKey = keyof typeof id;
+
+const en: Record<MessageKey, string> = {
+    // Metadata
+    "meta.description": "Create your own custom keychain with our interactive design tool.",
+
+    // Navbar
+    "nav.home": "Home",
+    "nav.customize": "Customize Keychain",
+    "nav.products": "Products",
+    "nav.contact": "Contact",
+    "nav.start": "Start Customizing",
+    "nav.toggleMenu": "Toggle menu",
+    "nav.language": "Language",
+
+    // Hero
+    "hero.badge": "✨ New Collection Available",
+    "hero.titleLead": "Design Your Own",
+    "hero.titleHighlight": "Unique Keychain",
+    "hero.intro": "Express your style! Pick a base, add up to 3 cute animal charms and see the result live. Order your custom keychain now.",
+    "hero.start": "Start Customizing Now",
+    "hero.catalog": "Browse Catalog",
+    "hero.customers": "Happy Customers",
+    "hero.customerAlt": "Customer",
+    "hero.imageAlt": "Custom Keychain Collection",
+
+    // Product showcase
+    "showcase.title": "Our Keychains",
+    "showcase.subtitle": "Inspiration for your next design",
+    "showcase.cta": "Create Your Own Design",
+    "showcase.priceFrom": "Start from {price}",
+
+    // Why us
+    "why.title": "Why Ongoing Project?",
+    "why.subtitle": "We give you the best customization experience, with product quality we take seriously.",
+    "why.preview.title": "Real-time Preview",
+    "why.preview.desc": "See your design instantly. Drag, pick and adjust as much as you like before ordering.",
+    "why.quality.title": "Premium Quality",
+    "why.quality.desc": "Made from high-quality acrylic with sharp, long-lasting prints.",
+    "why.personal.title": "Unique & Personal",
+    "why.personal.desc": "Endless combinations. Make a keychain that truly represents your personality.",
+
+    // Other products
+    "other.title": "Other Products",
+    "other.tagline": "Official Merchandise",
+    "other.previous": "Previous",
+    "other.next": "Next",
+
+    // Product pages
+    "product.back": "Back to products",
+    "product.image": "{name}, image {index}",
+    "product.showImage": "Show image {index}",
+    "product.variant": "Variant",
+    "product.decrease": "Decrease quantity",
+    "product.increase": "Increase quantity",
+    "product.order": "Order via WhatsApp · {amount}",
+    "product.customize": "Or design your own {product}",
+    "product.whatsappGreeting": "Hi Ongoing Project! I'd like to order {product}.",
+    "product.whatsappVariant": "*Variant:* {variant}",
+
+    // Footer
+    "footer.menu": "Menu",
+    "footer.customize": "Customize",
+    "footer.allProducts": "All Products",
+    "footer.follow": "Follow Us",
+    "footer.rights": "All rights reserved.",
+
+    // Customizer
+    "customizer.heading": "{product} Customization Studio",
+    "customizer.invalidShareLink": "This design link is invalid or has expired. Starting a new design.",
+    "customizer.readOnly": "View only: this design can't be changed here.",
+    "customizer.close": "Close",
+    "customizer.productTypes": "Product type",
+    "customizer.chooseBase": "Choose a Base",
+    "customizer.chooseCharms": "Choose Charms",
+    "customizer.modeFixed": "Template",
+    "customizer.modeManual": "Free Drag",
+    "customizer.undo": "Undo",
+    "customizer.redo": "Redo",
+    "customizer.editor": "Editor",
+    "customizer.preview": "Preview",
+    "customizer.grid": "Grid",
+    "customizer.editingActive": "● Editing Active",
+    "customizer.zoomIn": "Zoom in",
+    "customizer.zoomOut": "Zoom out",
+    "customizer.baseLoadError": "Error: Failed to load the base image.",
+    "customizer.unknownPath": "Unknown path",
+    "customizer.charm": "Charm",
+    "customizer.canvasRole": "{product} design canvas",
+    "customizer.canvasLabel": "Design canvas",
+    "customizer.canvasLabelManual": "Design canvas, {count} charms",
+    "customizer.canvasLabelSelected": "Design canvas, {count} charms, {name} selected",
+    "customizer.helpManual": "Drag a charm to position it (Alt = no snapping), drag a corner to resize and the top handle to rotate (Shift = 15° steps). Keyboard: Tab to select a charm, arrows to move it (Shift = further), Delete to remove it.",
+    "customizer.helpPreview": "Preview mode is on. Switch back to the Editor to make changes.",
+    "customizer.helpFixed": "Pick a slot on the right to add a charm automatically.",
+    "customizer.outOfBounds": "{count} charms are outside the print area (dashed line) and can't be produced. Move them back inside.",
+    "customizer.lowResolution": "{count} uploaded images will print blurry at this size (below {dpi} DPI). Make them smaller or upload a larger image.",
+    "customizer.uploadMissing": "{count} uploaded images in this design are no longer stored on our server. Remove them and upload the images again before ordering.",
+    "customizer.dragHint": "Drag images onto the canvas (Editor mode only).",
+    "customizer.addToCanvas": "Add {name} to the center of the canvas",
+    "customizer.clearCharms": "Remove All Charms",
+    "customizer.switchToEditor": "Switch to Editor mode to add charms.",
+    "customizer.summary": "Order Summary",
+    "customizer.previewResult": "Result Preview",
+    "customizer.loading": "Loading...",
+    "customizer.share": "Share Link",
+    "customizer.shareCopied": "Design link copied!",
+    "customizer.sharePrompt": "Copy this design link:",
+    "customizer.reset": "Reset",
+    "customizer.exportFailed": "Export failed.",
+
+    // Charm picker
+    "charms.search": "Search charms...",
+    "charms.clearSearch": "Clear search",
+    "charms.categories": "Charm categories",
+    "charms.all": "All",
+    "charms.recent": "Recently Used",
+    "charms.noResults": "No matching charms.",
+
+    // Stock
+    "stock.soldOut": "Sold out",
+    "stock.soldOutLabel": "{name} (sold out)",
+    "stock.issuesTitle": "This design can't be ordered yet",
+    "stock.issue.soldOut": "{name} is sold out.",
+    "stock.issue.hidden": "{name} is no longer available.",
+    "stock.issue.short": "Only {count} of {name} left.",
+    "stock.issuesHint": "Swap those parts or lower the quantity.",
+
+    // Compatibility
+    "compat.refused": "{name} can't go on {base}.",
+    "compat.refusedSlot": "{name} can't go in slot {slot} on {base}.",
+    "compat.notForBase": "{name}: doesn't fit this base",
+
+    // Customizer: slots and selected charm
+    "slot.clear": "Remove",
+    "slot.clearLabel": "Remove the charm in slot {slot}",
+    "slot.charms": "Charms for slot {slot}",
+    "transform.title": "Selected Item",
+    "transform.locked": " (Locked)",
+    "transform.size": "Size (%)",
+    "transform.rotation": "Rotation (°)",
+    "transform.flip": "Flip Horizontal",
+
+    // Customizer: text
+    "text.add": "Add Text",
+    "text.slot": "Text (optional)",
+    "text.label": "Text",
+    "text.placeholder": "Your name",
+    "text.default": "Name",
+    "text.itemName": "Text \"{text}\"",
+    "text.font": "Font",
+    "text.color": "Colour",
+    "text.customColor": "Custom colour",
+    "text.curve": "Curve",
+
+    // Customizer: uploaded images
+    "upload.title": "Upload Image",
+    "upload.hint": "A photo of your pet or a logo. PNG or JPEG, min. {min} px, max. 10 MB.",
+    "upload.choose": "Choose Image",
+    "upload.cancel": "Cancel upload",
+    "upload.preview": "Uploaded image preview",
+    "upload.shape": "Cut shape",
+    "upload.circle": "Circle",
+    "upload.outline": "Outline",
+    "upload.removeBackground": "Remove plain background",
+    "upload.tolerance": "Tolerance",
+    "upload.add": "Add to Canvas",
+    "upload.uploading": "Uploading...",
+    "upload.failed": "Upload failed.",
+    "upload.errorCanvas": "This browser can't process the image.",
+    "upload.itemName": "Uploaded image",
+    "upload.errorType": "The image must be a PNG or JPEG.",
+    "upload.errorFileSize": "The file is too large (max. 10 MB).",
+    "upload.errorDecode": "The image couldn't be read.",
+    "upload.errorResolution": "The image resolution is too low to print (min. {min} px).",
+    "upload.errorEmpty": "Nothing is left once the background is removed. Lower the tolerance.",
+
+    // Customizer: screen reader announcements
+    "a11y.position": "{x}% from the left, {y}% from the top",
+    "a11y.added": "{name} added at {position}.",
+    "a11y.slotCleared": "Slot {slot} cleared.",
+    "a11y.slotFilled": "{name} placed in slot {slot}.",
+    "a11y.removed": "{name} removed.",
+    "a11y.selected": "{name} selected, layer {layer} of {total}, {position}.",
+    "a11y.deselected": "Selection cleared.",
+    "a11y.moved": "{name} at {position}.",
+
+    // Confirm dialogs
+    "confirm.cancel": "Cancel",
+    "confirm.ok": "Yes, Continue",
+    "confirm.fixedMode.title": "Back to Template Mode?",
+    "confirm.fixedMode.message": "Your manual positions will be lost if you switch back to this mode. Continue?",
+    "confirm.reset.title": "Reset Design?",
+    "confirm.reset.message": "All changes will be cleared and you'll start over.",
+    "confirm.deleteDesign.title": "Delete design?",
+    "confirm.deleteDesign.message": "{name} will be removed from this browser.",
+    "confirm.removeCartItem.title": "Remove from cart?",
+    "confirm.removeCartItem.message": "Design {number} will be removed from the cart.",
+
+    // Order form
+    "order.name": "Name",
+    "order.contact": "Contact",
+    "order.contactPlaceholder": "WhatsApp No. / Email",
+    "order.quantity": "Quantity",
+    "order.missingFields": "Fill in your name and contact first.",
+    "order.failed": "The order could not be sent.",
+    "order.sending": "Sending...",
+    "order.whatsapp": "Order via WhatsApp",
+    "order.whatsappCart": "Order {count} designs via WhatsApp",
+    "order.attachmentNote": "*Your design is attached automatically as a link in the WhatsApp message.",
+
+    // WhatsApp order message (*bold* is WhatsApp markup)
+    "whatsapp.greeting": "Hi Ongoing Project! I'd like to order a custom {product}.",
+    "whatsapp.orderId": "*Order No.:* {id}",
+    "whatsapp.name": "*Name:* {name}",
+    "whatsapp.quantity": "*Quantity:* {count} pcs",
+    "whatsapp.perUnit": "*Per-piece breakdown:*",
+    "whatsapp.discount": "*Discount {percent}%:* -{amount}",
+    "whatsapp.total": "*Total:* {amount}",
+    "whatsapp.design": "My design: {url}",
+    "whatsapp.item": "*Design {number}:* {label}, {count} pcs × {amount}",
+    "whatsapp.itemLink": "Design link: {url}",
+
+    // Price summary
+    "price.addOns": "Extras",
+    "price.breakdown": "Price Breakdown (per piece)",
+    "price.breakdownCart": "Price Breakdown",
+    "price.subtotal": "Subtotal ({count} pcs)",
+    "price.discount": "Discount {percent}%",
+    "price.total": "Total",
+    "price.nothingToOrder": "There's no design that can be ordered yet. Remove the invalid designs from the cart.",
+
+    // Layers
+    "layers.title": "Layers",
+    "layers.lock": "Lock",
+    "layers.unlock": "Unlock",
+    "layers.duplicate": "Duplicate",
+    "layers.remove": "Remove",
+
+    // Print export
+    "export.title": "Print Export",
+    "export.resolution": "Resolution",
+    "export.transparent": "Transparent background",
+    "export.dpiCapped": "This base is too large for that resolution; the image is made at {dpi} DPI.",
+    "export.sheet": "Production Sheet",
+    "export.vector": "{format} + Cut Line",
+
+    // Production sheet (see printExport.ts)
+    "sheet.orderId": "Order no.: {id}",
+    "sheet.notOrdered": "(not ordered yet)",
+    "sheet.customer": "Name: {name}",
+    "sheet.quantity": "Quantity: {count} pcs",
+    "sheet.printedAt": "Printed: {date}",
+    "sheet.scale": "Scale {scale} ({width} × {height} mm)",
+    "sheet.parts": "Parts",
+    "sheet.base": "Base: {name} ({id})",
+    "sheet.position": "Center {x}, {y} mm · width {width} mm",
+    "sheet.rotation": "Rotation {degrees}°",
+    "sheet.rotationFlipped": "Rotation {degrees}° · flipped horizontally",
+    "sheet.noParts": "No charms or text",
+    "sheet.continued": "{id} · Parts (continued) · page {page} of {pages}",
+    "sheet.partText": "Text \"{text}\" ({font}, {color})",
+    "sheet.partUpload": "Uploaded image ({url})",
+
+    // My designs
+    "designs.title": "My Designs",
+    "designs.namePlaceholder": "Design name",
+    "designs.defaultName": "Design {number}",
+    "designs.copyName": "{name} (copy)",
+    "designs.save": "Save",
+    "designs.localOnly": "Saved in this browser only.",
+    "designs.empty": "No saved designs yet.",
+    "designs.open": "Open {name}",
+    "designs.duplicate": "Duplicate {name}",
+    "designs.delete": "Delete {name}",
+    "designs.saved": "Design {name} saved.",
+    "designs.opened": "Design {name} opened.",
+    "designs.saveFailed": "The design could not be saved.",
+    "designs.storageFull": "Browser storage is full. Delete some designs and try again.",
+    "designs.unavailable": "{name} contains items that are no longer available.",
+    "designs.thisDesign": "This design",
+    "designs.hasUnavailable": "Has sold-out or unavailable items",
+    "designs.uploadMissing": "Has an uploaded image that needs uploading again",
+
+    // Cart
+    "cart.title": "Cart ({count} designs)",
+    "cart.item": "Design {number}",
+    "cart.add": "Add to cart",
+    "cart.update": "Save to design {number}",
+    "cart.hint": "Ordering several designs at once? Add them to the cart one by one.",
+    "cart.notInCart": "The design on the canvas isn't in the cart yet.",
+    "cart.editing": "Editing",
+    "cart.editingHint": "Editing a design from the cart.",
+    "cart.unsaved": "Changes not saved to the cart yet.",
+    "cart.stopEditing": "Done editing",
+    "cart.edit": "Edit {name}",
+    "cart.remove": "Remove {name}",
+    "cart.quantity": "Quantity of {name}",
+    "cart.decrease": "Decrease quantity of {name}",
+    "cart.increase": "Increase quantity of {name}",
+    "cart.added": "Design added to the cart ({count} designs).",
+    "cart.updated": "Design {number} in the cart updated.",
+    "cart.opened": "Design {number} opened for editing.",
+    "cart.full": "The cart is full (max. {max} designs).",
+    "cart.addFailed": "The design could not be added to the cart.",
+    "cart.invalid": "Has items that no longer exist",
+    "cart.uploadMissing": "Has an uploaded image that needs uploading again",
+    "cart.invalidIssue": "Design {number} in the cart has items that no longer exist. Remove it from the cart.",
+
+    // Admin
+    "admin.title": "Ongoing Project Admin",
+    "admin.orders": "Orders",
+    "admin.signOut": "Sign out",
+    "admin.signIn.title": "Admin Sign In",
+    "admin.signIn.password": "Password",
+    "admin.signIn.submit": "Sign in",
+    "admin.signIn.failed": "Sign-in failed.",
+    "admin.signIn.notConfigured": "Admin is not enabled. Set ADMIN_PASSWORD in the server environment and restart.",
+    "admin.status.new": "New",
+    "admin.status.confirmed": "Confirmed",
+    "admin.status.inProduction": "In production",
+    "admin.status.shipped": "Shipped",
+    "admin.filter": "Filter by status",
+    "admin.filter.all": "All",
+    "admin.empty": "No orders yet.",
+    "admin.column.order": "Order",
+    "admin.column.date": "Date",
+    "admin.column.customer": "Customer",
+    "admin.column.product": "Product",
+    "admin.column.quantity": "Quantity",
+    "admin.column.total": "Total",
+    "admin.column.status": "Status",
+    "admin.back": "Back to orders",
+    "admin.order.title": "Order {id}",
+    "admin.order.placed": "Placed {date}",
+    "admin.order.customer": "Customer",
+    "admin.order.name": "Name",
+    "admin.order.contact": "Contact",
+    "admin.order.quantity": "Quantity",
+    "admin.order.addOns": "Add-ons",
+    "admin.order.status": "Status",
+    "admin.order.statusFailed": "Couldn't save the status.",
+    "admin.order.price": "Price",
+    "admin.order.noQuote": "No price recorded (older order).",
+    "admin.order.design": "Design",
+    "admin.order.rendering": "Rendering design...",
+    "admin.order.renderFailed": "Couldn't render the design.",
+    "admin.order.invalidDesign": "This design has items that are no longer in the catalog, so it can't be shown.",
+    "admin.order.parts": "Part List",
+    "admin.order.base": "Base: {name}",
+    "admin.order.partPosition": "Position {x} × {y} mm · width {width} mm · rotation {rotation}°",
+    "admin.order.openCustomizer": "Open in customizer (view only)",
+    "admin.order.item": "Design {number}",
+    "admin.order.pieces": "{count} pcs",
+    "admin.order.moreItems": "+{count} more designs",
+    "admin.nav": "Admin menu",
+    "admin.catalog": "Catalog",
+    "admin.catalog.bases": "Bases",
+    "admin.catalog.charms": "Charms",
+    "admin.catalog.addBase": "Add base",
+    "admin.catalog.addCharm": "Add charm",
+    "admin.catalog.edit": "Edit",
+    "admin.catalog.shown": "Shown",
+    "admin.catalog.hidden": "Hidden",
+    "admin.catalog.column.item": "Item",
+    "admin.catalog.column.price": "Price",
+    "admin.catalog.column.visibility": "Status",
+    "admin.catalog.back": "Back to catalog",
+    "admin.catalog.newBase": "New Base",
+    "admin.catalog.newCharm": "New Charm",
+    "admin.catalog.editItem": "Edit {name}",
+    "admin.catalog.id": "ID: {id}",
+    "admin.catalog.image": "Image",
+    "admin.catalog.imageHint": "PNG or JPEG, max. 10 MB. The image is scaled down and a thumbnail is made automatically.",
+    "admin.catalog.chooseImage": "Choose image",
+    "admin.catalog.replaceImage": "Replace image",
+    "admin.catalog.uploading": "Uploading...",
+    "admin.catalog.uploadFailed": "The image could not be uploaded.",
+    "admin.catalog.name": "Name",
+    "admin.catalog.price": "Price (IDR)",
+    "admin.catalog.category": "Category",
+    "admin.catalog.tags": "Search tags",
+    "admin.catalog.tagsHint": "Separate with commas, e.g. kuning, yellow",
+    "admin.catalog.productType": "Product type",
+    "admin.catalog.template": "Layout from",
+    "admin.catalog.templateHint": "Size, printable area, slots and text rules are copied from this base.",
+    "admin.catalog.show": "Show in the customizer and on the homepage",
+    "admin.catalog.save": "Save",
+    "admin.catalog.saveFailed": "The changes could not be saved.",
+    "admin.catalog.stock": "Stock",
+    "admin.catalog.stockHint": "Pieces left; goes down automatically with every order. Leave empty if stock isn't tracked.",
+    "admin.catalog.column.stock": "Stock",
+    "admin.catalog.soldOut": "Sold out",
+
+    // API errors, in the request's language (see serverLocale.ts)
+    "api.invalidData": "Invalid data.",
+    "api.notFound": "Page not found.",
+    "api.signInRequired": "Please sign in as an admin.",
+    "api.adminDisabled": "The admin area isn't enabled on the server.",
+    "api.wrongPassword": "Wrong password.",
+    "api.tooManyAttempts": "Too many sign-in attempts. Please try again later.",
+    "api.order.invalid": "Invalid order data.",
+    "api.order.itemCount": "An order must have 1 to {max} designs.",
+    "api.order.design": "The design is invalid or has items that are no longer available.",
+    "api.order.designNumbered": "Design {number} is invalid or has items that are no longer available.",
+    "api.order.quantity": "The quantity must be between 1 and {max}.",
+    "api.order.quantityNumbered": "The quantity of design {number} must be between 1 and {max}.",
+    "api.order.name": "Name is required (max. {max} characters).",
+    "api.order.contact": "Contact is required (max. {max} characters).",
+    "api.order.addOns": "Invalid extras.",
+    "api.order.uploadMissing": "An uploaded image in the design wasn't found. Please upload it again.",
+    "api.order.saveFailed": "The order could not be saved. Please try again.",
+    "api.order.notFound": "Order not found.",
+    "api.order.status": "Invalid status.",
+    "api.image.tooLarge": "The file is too large (max. {max} MB).",
+    "api.image.invalid": "Invalid image data.",
+    "api.image.notPng": "The file must be a PNG image.",
+    "api.image.resolutionLow": "The image resolution is too low (min. {min} px).",
+    "api.image.resolutionHigh": "The image resolution is too high (max. {max} px).",
+    "api.image.saveFailed": "The image could not be saved. Please try again.",
+    "api.image.notFound": "Image not found.",
+    "api.upload.rateLimited": "Too many uploads. Please try again later.",
+    "api.upload.storageFull": "Upload storage is full right now. Please try again later.",
+    "api.catalog.saveFailed": "The catalog could not be saved. Please try again.",
+    "api.catalog.invalidResult": "This change would leave the catalog invalid: {details}",
+    "api.catalog.name": "Name is required (max. {max} characters).",
+    "api.catalog.price": "The price must be a whole number, at least 0.",
+    "api.catalog.hidden": "Invalid visibility.",
+    "api.catalog.stock": "Stock must be a whole number, at least 0 (leave empty if it isn't tracked).",
+    "api.catalog.image": "Please upload an image.",
+    "api.catalog.thumbnail": "Invalid thumbnail.",
+    "api.catalog.category": "Invalid category.",
+    "api.catalog.tags": "Invalid tags (max. {max}).",
+    "api.catalog.productType": "Invalid product type.",
+    "api.catalog.template": "Pick a layout base of the same product type.",
+    "api.catalog.lastBase": "At least one base of this product type must stay visible.",
+    "api.catalog.charmNotFound": "Charm not found.",
+    "api.catalog.baseNotFound": "Base not found.",
+};
+
+export const messages: Record<"id" | "en", Record<MessageKey, string>> = { id, en };
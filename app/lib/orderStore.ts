@@ -0,0 +1,101 @@
+import path from "path";
+import { readJsonFile, writeJsonFile, writeLock } from "./fileStore";
+import { Order, OrderRequest, OrderStatus } from "./orders";
+import { ItemQuote, Quote } from "./pricing";
+
+// File-based order store. Server-only: import from route handlers, never from
+// client components.
+//
+// Orders live in a single JSON file (ORDERS_FILE, default data/orders.json).
+// Writes are queued so concurrent requests can't clobber each other. Orders
+// placed before the cart hold a single design; they're read as one-item orders.
+
+const ORDERS_FILE = process.env.ORDERS_FILE || path.join(process.cwd(), "data", "orders.json");
+
+// How orders were stored before the cart: one design, priced on its own
+type SingleDesignOrder = Omit<Order, "items" | "quote"> & {
+    design: string;
+    quote?: Omit<ItemQuote, "label"> & Omit<Quote, "items">;
+};
+
+function upgradeOrder(stored: Order | SingleDesignOrder): Order {
+    if ("items" in stored) return stored;
+    const { design, quote, ...rest } = stored;
+    return {
+        ...rest,
+        items: [{ design, quantity: stored.quantity }],
+        ...(quote ? {
+            quote: {
+                items: [{ label: "", lines: quote.lines, unitPrice: quote.unitPrice, quantity: quote.quantity, subtotal: quote.subtotal }],
+                quantity: quote.quantity,
+                subtotal: quote.subtotal,
+                discountPercent: quote.discountPercent,
+                discount: quote.discount,
+                total: quote.total,
+            },
+        } : {}),
+    };
+}
+
+async function readOrders(): Promise<Order[]> {
+    const stored = await readJsonFile(ORDERS_FILE) as (Order | SingleDesignOrder)[] | null;
+    return (stored ?? []).map(upgradeOrder);
+}
+
+const writeOrders = (orders: Order[]) => writeJsonFile(ORDERS_FILE, orders);
+
+const withWriteLock = writeLock();
+
+// Helper: short, readable order ID, e.g. OP-251018-7K2Q
+const generateOrderId = (date: Date) => {
+    const stamp = date.toISOString().slice(2, 10).replace(/-/g, "");
+    const suffix = Math.random().toString(36).substring(2, 6).toUpperCase().padEnd(4, "0");
+    return `OP-${stamp}-${suffix}`;
+};
+
+export async function createOrder(request: OrderRequest, quote: Quote): Promise<Order> {
+    return withWriteLock(async () => {
+        const orders = await readOrders();
+        const now = new Date();
+
+        let id = generateOrderId(now);
+        while (orders.some(o => o.id === id)) id = generateOrderId(now);
+
+        const order: Order = {
+            id,
+            status: 'new',
+            createdAt: now.toISOString(),
+            customer: request.customer,
+            items: request.items,
+            quantity: quote.quantity,
+            addOns: request.addOns,
+            quote,
+        };
+        await writeOrders([...orders, order]);
+        return order;
+    });
+}
+
+export async function getOrder(id: string): Promise<Order | null> {
+    const orders = await readOrders();
+    return orders.find(o => o.id === id) ?? null;
+}
+
+/** Every order, newest first. */
+export async function listOrders(): Promise<Order[]> {
+    const orders = await readOrders();
+    return orders.reverse();
+}
+
+/** Move an order to another status; null when there's no such order. */
+export async function updateOrderStatus(id: string, status: OrderStatus): Promise<Order | null> {
+    return withWriteLock(async () => {
+        const orders = await readOrders();
+        const index = orders.findIndex(o => o.id === id);
+        if (index === -1) return null;
+        const order = { ...orders[index], status };
+        orders[index] = order;
+        await writeOrders(orders);
+        return order;
+    });
+}
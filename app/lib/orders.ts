@@ -0,0 +1,110 @@
+import { Catalog } from "./catalog";
+import { compatibilityIssues, describeRefusal } from "./compatibility";
+import { Translate } from "./i18n";
+import { MessageKey } from "./messages";
+import { OrderedDesign, Quote } from "./pricing";
+import { decodeDesign } from "./share";
+import { stockIssueMessage, stockIssues } from "./stock";
+
+// Order model + request validation. Shared by the API route and the
+// customizer's order form so both agree on the limits.
+
+export type OrderStatus = 'new' | 'confirmed' | 'in_production' | 'shipped';
+
+// In the order an order moves through them
+export const ORDER_STATUSES: OrderStatus[] = ['new', 'confirmed', 'in_production', 'shipped'];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, MessageKey> = {
+    new: "admin.status.new",
+    confirmed: "admin.status.confirmed",
+    in_production: "admin.status.inProduction",
+    shipped: "admin.status.shipped",
+};
+
+export const isOrderStatus = (value: unknown): value is OrderStatus => ORDER_STATUSES.includes(value as OrderStatus);
+
+export type Customer = {
+    name: string;
+    contact: string;
+};
+
+// One design of an order, e.g. one keychain of a class set
+export type OrderItem = {
+    design: string; // Encoded design (see share.ts)
+    quantity: number;
+};
+
+export type Order = {
+    id: string;
+    status: OrderStatus;
+    createdAt: string;
+    customer: Customer;
+    items: OrderItem[];
+    quantity: number; // Pieces of all items together
+    addOns?: string[]; // Apply to every piece
+    quote?: Quote; // Price at the time of ordering; absent on orders placed before pricing existed
+};
+
+export type OrderRequest = {
+    items: OrderItem[];
+    customer: Customer;
+    addOns: string[]; // Pricing add-on IDs
+};
+
+// Per item; a cart holds at most MAX_ORDER_ITEMS of them
+export const MAX_QUANTITY = 500;
+export const MAX_ORDER_ITEMS = 20;
+const MAX_TEXT_LENGTH = 100;
+
+export type ValidatedOrder = OrderRequest & { decoded: OrderedDesign[] }; // `decoded` follows `items`
+
+/**
+ * Validate an incoming order payload. Returns either the cleaned-up request or
+ * a user-facing error message, in the customer's language (`t`).
+ */
+export function validateOrderRequest(body: unknown, catalog: Catalog, t: Translate): { ok: true; order: ValidatedOrder } | { ok: false; error: string } {
+    if (!body || typeof body !== "object") return { ok: false, error: t("api.order.invalid") };
+    const { items, customer, addOns = [] } = body as Record<string, unknown>;
+
+    if (!Array.isArray(items) || items.length === 0 || items.length > MAX_ORDER_ITEMS) {
+        return { ok: false, error: t("api.order.itemCount", { max: MAX_ORDER_ITEMS }) };
+    }
+    const decoded: OrderedDesign[] = [];
+    for (const [i, item] of items.entries()) {
+        // Designs are numbered in messages only when there are several
+        const numbered = items.length > 1;
+        const { design, quantity } = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+        const state = typeof design === "string" ? decodeDesign(design, catalog) : null;
+        if (!state) return { ok: false, error: numbered ? t("api.order.designNumbered", { number: i + 1 }) : t("api.order.design") };
+        if (!Number.isInteger(quantity) || (quantity as number) < 1 || (quantity as number) > MAX_QUANTITY) {
+            return { ok: false, error: t(numbered ? "api.order.quantityNumbered" : "api.order.quantity", { number: i + 1, max: MAX_QUANTITY }) };
+        }
+        const conflicts = compatibilityIssues(state, catalog);
+        if (conflicts.length > 0) return { ok: false, error: describeRefusal(conflicts[0], t) };
+        decoded.push({ design: state, quantity: quantity as number });
+    }
+
+    const { name, contact } = (customer && typeof customer === "object" ? customer : {}) as Record<string, unknown>;
+    const cleanName = typeof name === "string" ? name.trim() : "";
+    const cleanContact = typeof contact === "string" ? contact.trim() : "";
+    if (!cleanName || cleanName.length > MAX_TEXT_LENGTH) return { ok: false, error: t("api.order.name", { max: MAX_TEXT_LENGTH }) };
+    if (!cleanContact || cleanContact.length > MAX_TEXT_LENGTH) return { ok: false, error: t("api.order.contact", { max: MAX_TEXT_LENGTH }) };
+
+    const issues = stockIssues(decoded, catalog);
+    if (issues.length > 0) return { ok: false, error: stockIssueMessage(issues[0], t) };
+
+    const knownAddOns = catalog.pricing.addOns.map(a => a.id);
+    if (!Array.isArray(addOns) || !addOns.every(id => knownAddOns.includes(id)) || new Set(addOns).size !== addOns.length) {
+        return { ok: false, error: t("api.order.addOns") };
+    }
+
+    return {
+        ok: true,
+        order: {
+            items: decoded.map(({ quantity }, i) => ({ design: (items[i] as OrderItem).design, quantity })),
+            customer: { name: cleanName, contact: cleanContact },
+            addOns: addOns as string[],
+            decoded,
+        },
+    };
+}
@@ -0,0 +1,93 @@
+import { Catalog, getBase, getCharm } from "./catalog";
+import { DesignState, designProductType } from "./design";
+
+// Price quotes, in whole IDR. The customizer shows a live quote and the order
+// API stores its own copy with the order, both from the same catalog data.
+// An order can hold several designs (see the cart in designStorage.ts); the
+// bulk discount goes by the pieces of all of them together.
+
+export type QuoteLine = {
+    label: string;
+    unitPrice: number;
+    count: number; // Per keychain
+};
+
+// A design and how many pieces of it are ordered
+export type OrderedDesign = {
+    design: DesignState;
+    quantity: number;
+};
+
+export type ItemQuote = {
+    label: string; // Product type and base, e.g. "Keychain · Strap Abu"
+    lines: QuoteLine[]; // What one keychain is made of
+    unitPrice: number;
+    quantity: number;
+    subtotal: number;
+};
+
+export type Quote = {
+    items: ItemQuote[]; // One per design, in order
+    quantity: number; // Pieces of all designs together
+    subtotal: number;
+    discountPercent: number;
+    discount: number;
+    total: number;
+};
+
+/** Charm IDs a design actually uses, for the mode it's in. */
+export function designCharmIds(design: DesignState): string[] {
+    return design.mode === 'fixed'
+        ? Object.values(design.slots)
+        : design.manualItems.flatMap(item => item.type === 'charm' ? [item.charmId] : []);
+}
+
+/** Uploaded image IDs a design uses (manual mode only), one per item. */
+export function designUploadIds(design: DesignState): string[] {
+    return design.mode === 'manual'
+        ? design.manualItems.flatMap(item => item.type === 'upload' ? [item.uploadId] : [])
+        : [];
+}
+
+function quoteItem({ design, quantity }: OrderedDesign, addOns: string[], catalog: Catalog): ItemQuote {
+    const lines: QuoteLine[] = [];
+
+    const base = getBase(catalog, design.baseId);
+    if (base) lines.push({ label: base.name, unitPrice: base.price, count: 1 });
+
+    // One line per distinct charm, in the order they were first used
+    const charmCounts = new Map<string, number>();
+    designCharmIds(design).forEach(id => charmCounts.set(id, (charmCounts.get(id) ?? 0) + 1));
+    charmCounts.forEach((count, id) => {
+        const charm = getCharm(catalog, id);
+        if (charm) lines.push({ label: charm.name, unitPrice: charm.price, count });
+    });
+
+    const uploads = designUploadIds(design).length;
+    if (uploads > 0) lines.push({ label: catalog.pricing.uploadCharm.name, unitPrice: catalog.pricing.uploadCharm.price, count: uploads });
+
+    catalog.pricing.addOns
+        .filter(addOn => addOns.includes(addOn.id))
+        .forEach(addOn => lines.push({ label: addOn.name, unitPrice: addOn.price, count: 1 }));
+
+    const unitPrice = lines.reduce((sum, line) => sum + line.unitPrice * line.count, 0);
+    const label = [designProductType(design, catalog).name, base?.name].filter(Boolean).join(" · ");
+    return { label, lines, unitPrice, quantity, subtotal: unitPrice * quantity };
+}
+
+/** Price an order of one or more designs; add-ons apply to every piece. */
+export function quoteOrder(designs: OrderedDesign[], addOns: string[], catalog: Catalog): Quote {
+    const items = designs.map(ordered => quoteItem(ordered, addOns, catalog));
+    const quantity = items.reduce((sum, item) => sum + item.quantity, 0);
+    const subtotal = items.reduce((sum, item) => sum + item.subtotal, 0);
+    // Highest tier the quantity reaches; tiers are sorted ascending
+    const tier = catalog.pricing.quantityTiers.filter(t => quantity >= t.minQuantity).pop();
+    const discountPercent = tier?.discountPercent ?? 0;
+    const discount = Math.round(subtotal * discountPercent / 100);
+
+    return { items, quantity, subtotal, discountPercent, discount, total: subtotal - discount };
+}
+
+const idrFormat = new Intl.NumberFormat("id-ID", { style: "currency", currency: "IDR", maximumFractionDigits: 0 });
+
+export const formatIDR = (amount: number) => idrFormat.format(amount);
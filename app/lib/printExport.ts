@@ -0,0 +1,279 @@
+import { Base, baseProductType, CanvasLayout, Catalog, getBase, getCharm } from "./catalog";
+import { DesignState } from "./design";
+import { Translate } from "./i18n";
+import { baseRect, ItemImage } from "./geometry";
+import { designPlacements, drawBase, drawCharm, Placement } from "./render";
+import { getTextFont, loadTextImage } from "./text";
+import { uploadUrl } from "./upload";
+
+// Print exports, rendered offscreen from the design itself rather than copied
+// off the editor canvas: no zoom, no selection box or guides, and sized from
+// the base's physical dimensions at the requested DPI.
+
+export const EXPORT_DPIS = [150, 300, 600];
+const MM_PER_INCH = 25.4;
+// Largest canvas every browser we support will draw (iOS Safari caps the
+// area at 4096 × 4096); a tote at 600 DPI would be ~9k × 11k px
+const MAX_PRINT_PIXELS = 4096 * 4096;
+
+export const mmToPx = (mm: number, dpi: number) => Math.round((mm / MM_PER_INCH) * dpi);
+
+/** The highest DPI a print of `base` can be rendered at within MAX_PRINT_PIXELS. */
+export function maxPrintDpi(base: Base): number {
+    const areaInches = (base.size.widthMm / MM_PER_INCH) * (base.size.heightMm / MM_PER_INCH);
+    return Math.floor(Math.sqrt(MAX_PRINT_PIXELS / areaInches));
+}
+
+export type LoadImage = (src: string) => Promise<HTMLImageElement | null>;
+
+export type PrintOptions = {
+    dpi: number;
+    transparent: boolean; // Otherwise filled white
+};
+
+// A placement measured on the physical base: center and width in mm from the
+// base's top-left corner.
+export type PhysicalPlacement = Placement & { xMm: number; yMm: number; widthMm: number };
+
+/** Convert editor placements into millimetres on the base. */
+export function toPhysical(placements: Placement[], base: Base, baseAspect: number, layout: CanvasLayout): PhysicalPlacement[] {
+    const rect = baseRect(baseAspect, layout);
+    return placements.map(p => ({
+        ...p,
+        xMm: ((p.x - rect.x) / rect.width) * base.size.widthMm,
+        yMm: ((p.y - rect.y) / rect.height) * base.size.heightMm,
+        widthMm: (p.scale / rect.width) * base.size.widthMm,
+    }));
+}
+
+/** The image a placement is drawn from: its charm's image, its rendered text or the uploaded image. */
+export function loadPlacementImage(placement: Placement, catalog: Catalog, loadImage: LoadImage): Promise<ItemImage | null> {
+    if (placement.type === 'text') return loadTextImage(placement.style);
+    if (placement.type === 'upload') return loadImage(uploadUrl(placement.uploadId));
+    const charm = getCharm(catalog, placement.charmId);
+    return charm ? loadImage(charm.image) : Promise.resolve(null);
+}
+
+/** Label for a placement on the production sheet. */
+export function placementLabel(placement: Placement, catalog: Catalog, t: Translate): string {
+    if (placement.type === 'text') {
+        const font = getTextFont(placement.style.fontId);
+        return t("sheet.partText", { text: placement.style.text, font: font?.name ?? placement.style.fontId, color: placement.style.color });
+    }
+    if (placement.type === 'upload') return t("sheet.partUpload", { url: uploadUrl(placement.uploadId) });
+    return `${getCharm(catalog, placement.charmId)?.name ?? placement.charmId} (${placement.charmId})`;
+}
+
+/** Load the base and every item image of a design, with the items' placements. */
+export async function loadDesign(design: DesignState, catalog: Catalog, loadImage: LoadImage) {
+    const base = getBase(catalog, design.baseId);
+    if (!base) throw new Error(`Base ${design.baseId} is not in the catalog`);
+    const baseImg = await loadImage(base.image);
+    if (!baseImg) throw new Error(`Failed to load ${base.image}`);
+
+    const baseAspect = baseImg.height / baseImg.width;
+    const layout = baseProductType(catalog, base).canvas;
+    const placements = designPlacements(design, base, baseAspect, layout);
+    const images = await Promise.all(placements.map(p => loadPlacementImage(p, catalog, loadImage)));
+    return { base, baseImg, baseAspect, layout, placements, images };
+}
+
+/**
+ * Render the design cropped to its base, at the base's physical size and
+ * `dpi`, lowered to maxPrintDpi for bases too large to render at it.
+ */
+export async function renderPrint(design: DesignState, catalog: Catalog, loadImage: LoadImage, options: PrintOptions): Promise<HTMLCanvasElement> {
+    const { base, baseImg, baseAspect, layout, placements, images } = await loadDesign(design, catalog, loadImage);
+    const { transparent } = options;
+    const dpi = Math.min(options.dpi, maxPrintDpi(base));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = mmToPx(base.size.widthMm, dpi);
+    canvas.height = mmToPx(base.size.heightMm, dpi);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D is not supported");
+
+    if (!transparent) {
+        ctx.fillStyle = "#FFFFFF";
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+
+    // One normalized unit in print pixels; shift so the base's corner lands at 0,0
+    const rect = baseRect(baseAspect, layout);
+    const unit = canvas.width / rect.width;
+    ctx.translate(-rect.x * unit, -rect.y * unit);
+
+    drawBase(ctx, baseImg, layout, unit, { shadow: false });
+    placements.forEach((placement, idx) => {
+        const img = images[idx];
+        if (!img) return;
+        drawCharm(ctx, img, placement, unit, { shadow: false });
+        ctx.restore();
+    });
+
+    return canvas;
+}
+
+// -------------------
+// PRODUCTION SHEET
+// -------------------
+export type SheetInfo = {
+    orderId: string | null;
+    customerName: string;
+    quantity: number;
+    printedAt: string; // Formatted for the sheet's language
+};
+
+// A4 portrait at 150 DPI, so a design that fits prints at 1:1 on A4 at 100%
+const SHEET_DPI = 150;
+const SHEET_WIDTH = mmToPx(210, SHEET_DPI);
+const SHEET_HEIGHT = mmToPx(297, SHEET_DPI);
+const SHEET_MARGIN = 90;
+// The part list's column, right of the design; at most 440 px wide
+const LIST_WIDTH = 440;
+const LIST_GAP = 60;
+// Room for the header above the design (title and four lines, drawn below)
+// and the scale note under it
+const HEADER_HEIGHT = 230;
+const CAPTION_HEIGHT = 40;
+// The list's title and base line, then three lines per part
+const LIST_HEADER_HEIGHT = 84;
+const PART_HEIGHT = 92;
+// Narrowest room under the design still worth a column of parts
+const MIN_COLUMN_WIDTH = 300;
+// The "continued" line atop each extra page
+const CONTINUED_HEIGHT = 60;
+
+// Where a run of parts goes on the sheet
+type ListColumn = { x: number; y: number; width: number; rows: number };
+
+const rowsBetween = (top: number, bottom: number) => Math.max(0, Math.floor((bottom - top) / PART_HEIGHT));
+
+// Columns for `count` parts: beside the design, then under it, then as many
+// extra pages (stacked under the first) as the rest need. Also returns how
+// many extra pages that is.
+function listColumns(count: number, listX: number, designY: number, print: { width: number; height: number }): { columns: ListColumn[]; extraPages: number } {
+    const bottom = SHEET_HEIGHT - SHEET_MARGIN;
+    const listY = designY + LIST_HEADER_HEIGHT;
+    const columns: ListColumn[] = [{ x: listX, y: listY, width: LIST_WIDTH, rows: rowsBetween(listY, bottom) }];
+    const underY = designY + print.height + CAPTION_HEIGHT;
+    if (print.width >= MIN_COLUMN_WIDTH) columns.push({ x: SHEET_MARGIN, y: underY, width: print.width, rows: rowsBetween(underY, bottom) });
+
+    const firstPageRows = columns.reduce((sum, column) => sum + column.rows, 0);
+    const pageColumns = Math.floor((SHEET_WIDTH - 2 * SHEET_MARGIN + LIST_GAP) / (LIST_WIDTH + LIST_GAP));
+    const pageRows = rowsBetween(SHEET_MARGIN + CONTINUED_HEIGHT, bottom);
+    const extraPages = Math.ceil(Math.max(0, count - firstPageRows) / (pageColumns * pageRows));
+    for (let page = 1; page <= extraPages; page++) {
+        for (let i = 0; i < pageColumns; i++) {
+            columns.push({ x: SHEET_MARGIN + i * (LIST_WIDTH + LIST_GAP), y: page * SHEET_HEIGHT + SHEET_MARGIN + CONTINUED_HEIGHT, width: LIST_WIDTH, rows: pageRows });
+        }
+    }
+    return { columns, extraPages };
+}
+
+/**
+ * Workshop sheet: order details, the design and its part list with positions
+ * in mm. The design is drawn at 1:1 when it fits beside the list, otherwise
+ * scaled down, with the scale printed under it. A list too long for the page
+ * continues on A4 pages below it, so the PNG prints as whole pages.
+ */
+export async function renderProductionSheet(design: DesignState, catalog: Catalog, loadImage: LoadImage, info: SheetInfo, t: Translate): Promise<HTMLCanvasElement> {
+    const { base, baseAspect, layout, placements } = await loadDesign(design, catalog, loadImage);
+    const fitWidth = SHEET_WIDTH - 2 * SHEET_MARGIN - LIST_GAP - LIST_WIDTH;
+    const fitHeight = SHEET_HEIGHT - 2 * SHEET_MARGIN - HEADER_HEIGHT - CAPTION_HEIGHT;
+    const scale = Math.min(1, fitWidth / mmToPx(base.size.widthMm, SHEET_DPI), fitHeight / mmToPx(base.size.heightMm, SHEET_DPI));
+    const print = await renderPrint(design, catalog, loadImage, { dpi: SHEET_DPI * scale, transparent: false });
+    const parts = toPhysical(placements, base, baseAspect, layout);
+    const designY = SHEET_MARGIN + HEADER_HEIGHT;
+    const listX = SHEET_MARGIN + print.width + LIST_GAP;
+    const { columns, extraPages } = listColumns(parts.length, listX, designY, print);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = SHEET_WIDTH;
+    canvas.height = SHEET_HEIGHT * (1 + extraPages);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D is not supported");
+
+    ctx.fillStyle = "#FFFFFF";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = "#111827";
+    ctx.textBaseline = "top";
+
+    // Header
+    let y = SHEET_MARGIN;
+    ctx.font = "bold 40px sans-serif";
+    ctx.fillText(t("export.sheet"), SHEET_MARGIN, y);
+    y += 64;
+    ctx.font = "24px sans-serif";
+    [
+        t("sheet.orderId", { id: info.orderId ?? t("sheet.notOrdered") }),
+        t("sheet.customer", { name: info.customerName.trim() || "-" }),
+        t("sheet.quantity", { count: info.quantity }),
+        t("sheet.printedAt", { date: info.printedAt }),
+    ].forEach(line => {
+        ctx.fillText(line, SHEET_MARGIN, y);
+        y += 34;
+    });
+
+    // Design, framed
+    ctx.drawImage(print, SHEET_MARGIN, designY);
+    ctx.strokeStyle = "#D1D5DB";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(SHEET_MARGIN, designY, print.width, print.height);
+    ctx.font = "18px sans-serif";
+    ctx.fillStyle = "#6B7280";
+    const scaleText = scale === 1 ? "1:1" : `${Math.floor(scale * 100)}%`;
+    ctx.fillText(t("sheet.scale", { scale: scaleText, width: base.size.widthMm, height: base.size.heightMm }), SHEET_MARGIN, designY + print.height + 12);
+
+    // Part list, right of the design
+    ctx.fillStyle = "#111827";
+    ctx.font = "bold 26px sans-serif";
+    ctx.fillText(t("sheet.parts"), listX, designY, LIST_WIDTH);
+    ctx.font = "20px sans-serif";
+    ctx.fillText(t("sheet.base", { name: base.name, id: base.id }), listX, designY + 44, LIST_WIDTH);
+    if (parts.length === 0) ctx.fillText(t("sheet.noParts"), listX, designY + LIST_HEADER_HEIGHT, LIST_WIDTH);
+
+    for (let page = 1; page <= extraPages; page++) {
+        ctx.font = "bold 22px sans-serif";
+        ctx.fillText(t("sheet.continued", { id: info.orderId ?? t("sheet.notOrdered"), page: page + 1, pages: extraPages + 1 }), SHEET_MARGIN, page * SHEET_HEIGHT + SHEET_MARGIN);
+    }
+
+    const fmt = (mm: number) => mm.toFixed(1);
+    let column = 0;
+    let row = 0;
+    parts.forEach((p, idx) => {
+        while (row >= columns[column].rows) {
+            column++;
+            row = 0;
+        }
+        const { x, width } = columns[column];
+        const top = columns[column].y + row * PART_HEIGHT;
+        row++;
+        ctx.font = "bold 20px sans-serif";
+        ctx.fillText(`${idx + 1}. ${placementLabel(p, catalog, t)}`, x, top, width);
+        ctx.font = "18px sans-serif";
+        ctx.fillStyle = "#4B5563";
+        ctx.fillText(t("sheet.position", { x: fmt(p.xMm), y: fmt(p.yMm), width: fmt(p.widthMm) }), x + 24, top + 28, width - 24);
+        ctx.fillText(t(p.flipX ? "sheet.rotationFlipped" : "sheet.rotation", { degrees: Math.round(p.rotation) }), x + 24, top + 54, width - 24);
+        ctx.fillStyle = "#111827";
+    });
+
+    return canvas;
+}
+
+/** Save a blob as a file download. */
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.download = filename;
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** Save a canvas as a PNG download. */
+export function downloadCanvas(canvas: HTMLCanvasElement, filename: string) {
+    canvas.toBlob(blob => {
+        if (blob) downloadBlob(blob, filename);
+    }, "image/png");
+}
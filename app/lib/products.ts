@@ -0,0 +1,46 @@
+import { Catalog, ProductDetails, ProductVariant } from "./catalog";
+
+// Product detail pages (/products/<slug>): the padel series and the other
+// merchandise, seen through one shape so the page doesn't care which it is.
+
+export type Product = ProductDetails & {
+    slug: string;
+    kind: 'series' | 'merch';
+    name: string;
+    images: string[]; // Gallery, cover first
+};
+
+export function listProducts(catalog: Catalog): Product[] {
+    return [
+        ...catalog.series.map((s): Product => ({
+            slug: s.id,
+            kind: 'series',
+            name: s.name,
+            images: [s.cover, ...s.images.filter(src => src !== s.cover)],
+            description: s.description,
+            price: s.price,
+            variants: s.variants,
+            customizer: s.customizer,
+        })),
+        ...catalog.otherProducts.map((p): Product => ({
+            slug: p.id,
+            kind: 'merch',
+            name: p.name,
+            images: p.images,
+            description: p.description,
+            price: p.price,
+            variants: p.variants,
+            customizer: p.customizer,
+        })),
+    ];
+}
+
+export const getProduct = (catalog: Catalog, slug: string) => listProducts(catalog).find(p => p.slug === slug);
+
+export const productHref = (slug: string) => `/products/${slug}`;
+
+export const variantPrice = (product: Product, variant: ProductVariant | undefined) => variant?.price ?? product.price;
+
+/** Lowest price a product sells for, across its variants. */
+export const priceFrom = (product: Product) =>
+    Math.min(product.price, ...product.variants.map(v => v.price ?? product.price));
@@ -0,0 +1,45 @@
+// Per-client rate limiting for the public API routes. Server-only; counts live
+// in memory, so they reset on restart and aren't shared between instances.
+//
+// Clients are told apart by IP address. X-Forwarded-For is a list the client
+// can start with anything it likes; each proxy appends the address it got the
+// request from, so only the last entry is trustworthy: our reverse proxy's
+// view of the client. Without a proxy Next fills in the socket address, but
+// only when the header is missing, so a server exposed directly should be put
+// behind one. X-Real-IP is only used when TRUSTED_PROXY is set, since a proxy
+// that sets it overwrites whatever the client sent.
+
+// Forget clients with no hits in the window once this many are tracked
+const SWEEP_SIZE = 1000;
+
+const behindProxy = () => !!process.env.TRUSTED_PROXY;
+
+/** The address to rate-limit a request by. */
+export function clientAddress(request: Request): string {
+    if (behindProxy()) {
+        const realIp = request.headers.get("x-real-ip")?.trim();
+        if (realIp) return realIp;
+    }
+    const forwarded = request.headers.get("x-forwarded-for")?.split(",").map(hop => hop.trim()).filter(Boolean);
+    return forwarded?.at(-1) ?? "unknown";
+}
+
+/**
+ * A counter allowing each client `limit` hits per `windowMs`. Calling it
+ * counts a hit from `client` and returns false once it's over the limit.
+ */
+export function rateLimiter(limit: number, windowMs: number): (client: string, now?: number) => boolean {
+    const hits = new Map<string, number[]>();
+    return (client, now = Date.now()) => {
+        if (hits.size > SWEEP_SIZE) {
+            hits.forEach((times, key) => {
+                if (times.every(t => now - t >= windowMs)) hits.delete(key);
+            });
+        }
+        const times = (hits.get(client) ?? []).filter(t => now - t < windowMs);
+        const allowed = times.length < limit;
+        if (allowed) times.push(now);
+        hits.set(client, times);
+        return allowed;
+    };
+}
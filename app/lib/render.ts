@@ -0,0 +1,119 @@
+import { Base, CanvasLayout, SlotTemplate } from "./catalog";
+import { CharmItem, DesignItem, DesignState, ItemTransform, TextItem, UploadItem } from "./design";
+import { baseRect, ItemImage, Rect, toCanvasPoint, toRadians } from "./geometry";
+import { textAspect, textStyle, TextStyle } from "./text";
+
+// Canvas drawing shared by the editor and the exports.
+//
+// Placements use the editor's normalized canvas coordinates (see geometry.ts).
+// Draw calls take `unit`, the number of pixels one normalized unit spans, so
+// the same design can be drawn at editor size or at print resolution.
+
+export type PlacementContent =
+    | { type: 'charm'; charmId: string }
+    | { type: 'text'; style: TextStyle }
+    | { type: 'upload'; uploadId: string };
+
+export type Placement = PlacementContent & {
+    itemId?: string; // Manual mode only
+    x: number;
+    y: number;
+    scale: number;
+    rotation: number;
+    flipX: boolean;
+};
+
+/** What a manual-mode item shows, as placement content. */
+export function itemContent(item: DesignItem): PlacementContent {
+    if (item.type === 'text') return { type: 'text', style: textStyle(item) };
+    if (item.type === 'upload') return { type: 'upload', uploadId: item.uploadId };
+    return { type: 'charm', charmId: item.charmId };
+}
+
+// A manual-mode item without its position and transform
+type ItemContentFields = Omit<CharmItem, keyof ItemTransform> | Omit<TextItem, keyof ItemTransform> | Omit<UploadItem, keyof ItemTransform>;
+
+/** The manual-mode item fields for a placement's content (the inverse of itemContent). */
+export function contentFields(content: PlacementContent): ItemContentFields {
+    if (content.type === 'text') return { type: 'text', ...content.style };
+    if (content.type === 'upload') return { type: 'upload', uploadId: content.uploadId };
+    return { type: 'charm', charmId: content.charmId };
+}
+
+/** Where a fixed-mode slot puts its charm, in canvas coordinates. */
+export const slotPlacement = (slot: SlotTemplate, baseAspect: number, layout: CanvasLayout) => ({
+    ...toCanvasPoint(slot, baseAspect, layout),
+    scale: slot.maxScale * layout.baseScale,
+});
+
+/**
+ * Where the fixed-mode text slot puts the text: as large as fits its box.
+ * Browser-only, as it measures the text.
+ */
+export function textSlotPlacement(slot: NonNullable<NonNullable<Base["text"]>["slot"]>, style: TextStyle, baseAspect: number, layout: CanvasLayout) {
+    const width = Math.min(slot.maxWidth, slot.maxHeight / textAspect(style));
+    return { ...toCanvasPoint(slot, baseAspect, layout), scale: width * layout.baseScale };
+}
+
+/** Every item of a design, bottom-most first, for the mode it's in. */
+export function designPlacements(design: DesignState, base: Base, baseAspect: number, layout: CanvasLayout): Placement[] {
+    if (design.mode === 'manual') {
+        return design.manualItems.map(item => ({
+            ...itemContent(item),
+            itemId: item.id,
+            x: item.x,
+            y: item.y,
+            scale: item.z,
+            rotation: item.rotation,
+            flipX: item.flipX,
+        }));
+    }
+    const placements: Placement[] = base.slots.flatMap(slot => {
+        const charmId = design.slots[slot.id];
+        return charmId ? [{ type: 'charm', charmId, ...slotPlacement(slot, baseAspect, layout), rotation: 0, flipX: false } as const] : [];
+    });
+    const textSlot = base.text?.slot;
+    if (textSlot && design.slotText?.text) {
+        placements.push({ type: 'text', style: design.slotText, ...textSlotPlacement(textSlot, design.slotText, baseAspect, layout), rotation: 0, flipX: false });
+    }
+    return placements;
+}
+
+export function drawBase(ctx: CanvasRenderingContext2D, img: HTMLImageElement, layout: CanvasLayout, unit: number, { shadow = true } = {}): Rect {
+    const rect = baseRect(img.height / img.width, layout);
+    ctx.save();
+    if (shadow) {
+        ctx.shadowColor = "rgba(0,0,0,0.2)";
+        ctx.shadowBlur = 20;
+        ctx.shadowOffsetY = 10;
+    }
+    ctx.drawImage(img, unit * rect.x, unit * rect.y, unit * rect.width, unit * rect.height);
+    ctx.restore();
+    return rect;
+}
+
+/**
+ * Draw a charm (or rendered text) centered on its placement. Leaves the context translated and
+ * rotated to the charm's center (inside a save()) and returns its drawn size so
+ * callers can add overlays; call `ctx.restore()` afterwards.
+ */
+export function drawCharm(ctx: CanvasRenderingContext2D, img: ItemImage, placement: Placement, unit: number, { shadow = true } = {}) {
+    const cw = unit * placement.scale;
+    const ch = (cw / img.width) * img.height;
+
+    // Draw around the item's center so rotation/flip pivot there
+    ctx.save();
+    ctx.translate(unit * placement.x, unit * placement.y);
+    ctx.rotate(toRadians(placement.rotation));
+
+    ctx.save();
+    if (placement.flipX) ctx.scale(-1, 1);
+    if (shadow) {
+        ctx.shadowColor = "rgba(0,0,0,0.1)";
+        ctx.shadowBlur = 5;
+    }
+    ctx.drawImage(img, -cw / 2, -ch / 2, cw, ch);
+    ctx.restore();
+
+    return { cw, ch };
+}
@@ -0,0 +1,21 @@
+import { cookies, headers } from "next/headers";
+import { createTranslator, DEFAULT_LOCALE, isLocale, Locale, LOCALE_COOKIE, LOCALES } from "./i18n";
+
+// Server-side locale: the switcher's cookie, else the browser's preferred
+// language, else Indonesian.
+export async function getLocale(): Promise<Locale> {
+    const chosen = (await cookies()).get(LOCALE_COOKIE)?.value;
+    if (isLocale(chosen)) return chosen;
+
+    const accepted = (await headers()).get("accept-language") ?? "";
+    const preferred = accepted
+        .split(",")
+        .map(part => part.split(";")[0].trim().slice(0, 2).toLowerCase())
+        .find(lang => LOCALES.includes(lang as Locale));
+    return isLocale(preferred) ? preferred : DEFAULT_LOCALE;
+}
+
+/** Translator for the current request, for server components and route handlers. */
+export async function getT() {
+    return createTranslator(await getLocale());
+}
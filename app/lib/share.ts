@@ -0,0 +1,217 @@
+import { Catalog, getBase, getCharm } from "./catalog";
+import { customizerHref, DesignItem, DesignState, designProductType, generateId } from "./design";
+import { clampScale, normalizeRotation } from "./geometry";
+import { isValidTextStyle, TextStyle } from "./text";
+import { UPLOAD_ID_PATTERN } from "./upload";
+
+// Shareable design links.
+//
+// A design is packed into a positional JSON tuple and base64url-encoded so it
+// fits in a query param (`/customizer/<product type>?d=...`). The first element is always the
+// format version; bump SHARE_VERSION and keep decoding older versions whenever
+// the tuple layout changes.
+//
+// v5: [5, mode, baseId, { slotId: charmId }, [[content, x, y, z, rotation?, flipX?], ...], zoom, slotText]
+//     content is a charm ID, [text, fontId, color, curve] for a text item, or
+//     [uploadId] for an uploaded image.
+//     slotText is the fixed-mode text slot in the same [text, ...] form, or null.
+// v4: as v5 without uploaded images.
+// v3: as v4 without text: every content is a charm ID and there's no slotText.
+//     mode is 0 = fixed, 1 = manual. Only filled slots are written. Coordinates
+//     are stored as integers (value * COORD_PRECISION) to keep links short.
+//     rotation (whole degrees) and flipX (0/1) are only written when they
+//     differ from the default.
+// v2: slots as a fixed [A, B, C] (bottom, middle, top) tuple of charm IDs.
+// v1: as v2, with array indices instead of catalog IDs; mapped through the
+//     LEGACY_* tables below.
+
+export const SHARE_PARAM = "d";
+// With SHARE_PARAM, `view=1` opens the design read-only (e.g. from the admin)
+export const VIEW_PARAM = "view";
+// With SHARE_PARAM, `cart=<id>` opens the design to edit that cart item (see designStorage.ts)
+export const CART_PARAM = "cart";
+const SHARE_VERSION = 5;
+const COORD_PRECISION = 10000;
+
+type SharedText = [string, string, string, number];
+type SharedContent = string | SharedText | [string];
+type SharedItem = [SharedContent, number, number, number] | [SharedContent, number, number, number, number, 0 | 1];
+type SharedDesign = [5, 0 | 1, string, Record<string, string>, SharedItem[], number, SharedText | null];
+
+// Index -> ID for v1 links, in the order of the old ASSETS arrays. Never reorder.
+const LEGACY_BASE_IDS = [
+    "strap-grey", "strap-navy", "strap-neon", "strap-white",
+    "strap-mint", "strap-lilac", "strap-pink", "strap-green",
+];
+const LEGACY_CHARM_IDS = [
+    "tiger", "bee", "beret-cat", "stegosaurus", "bunny", "panda", "monkey",
+    "koala", "bear", "yellow-cat", "duck", "skater-dino", "bee-nice",
+];
+// Slot IDs for the positional [A, B, C] slots of v1/v2 links
+const LEGACY_SLOT_IDS = ["bottom", "middle", "top"];
+
+const pack = (n: number) => Math.round(n * COORD_PRECISION);
+const unpack = (n: number) => n / COORD_PRECISION;
+
+const toBase64Url = (text: string) => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = "";
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string) => {
+    const base64 = encoded.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64 + "=".repeat((4 - base64.length % 4) % 4));
+    return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+const packText = (style: TextStyle): SharedText => [style.text, style.fontId, style.color, style.curve];
+
+export function encodeDesign(design: DesignState): string {
+    const payload: SharedDesign = [
+        SHARE_VERSION,
+        design.mode === 'manual' ? 1 : 0,
+        design.baseId,
+        design.slots,
+        // Empty text is an editing state, not something to share or order
+        design.manualItems.filter(item => item.type !== 'text' || item.text.trim()).map((item): SharedItem => {
+            const content: SharedContent = item.type === 'text' ? packText(item) : item.type === 'upload' ? [item.uploadId] : item.charmId;
+            const base: SharedItem = [content, pack(item.x), pack(item.y), pack(item.z)];
+            const rotation = Math.round(item.rotation);
+            return rotation === 0 && !item.flipX ? base : [...base, rotation, item.flipX ? 1 : 0];
+        }),
+        pack(design.zoom),
+        design.slotText?.text.trim() ? packText(design.slotText) : null,
+    ];
+    return toBase64Url(JSON.stringify(payload));
+}
+
+// Validators
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Decode a shared design. Returns null for anything that is malformed, from an
+ * unknown version, or that points at a base/charm no longer in the catalog, so
+ * callers can fall back to a blank design. Upload IDs are only checked for
+ * their format here; the order API checks that the images exist.
+ */
+export function decodeDesign(encoded: string | null | undefined, catalog: Catalog): DesignState | null {
+    if (!encoded) return null;
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(fromBase64Url(encoded));
+    } catch {
+        return null;
+    }
+
+    if (!Array.isArray(payload) || ![1, 2, 3, 4, 5].includes(payload[0])) return null;
+    const version: number = payload[0];
+    if (payload.length !== (version >= 4 ? 7 : 6)) return null;
+
+    // v1 stored array indices; anything unmappable resolves to undefined and fails below
+    const legacy = version === 1;
+    const toBaseId = (value: unknown) => legacy ? (Number.isInteger(value) ? LEGACY_BASE_IDS[value as number] : undefined) : value;
+    const toCharmId = (value: unknown) => legacy ? (Number.isInteger(value) ? LEGACY_CHARM_IDS[value as number] : undefined) : value;
+
+    const isCharmId = (value: unknown): value is string =>
+        typeof value === "string" && getCharm(catalog, value) !== undefined;
+
+    const [, mode, rawBase, rawSlots, items, zoom, rawSlotText = null] = payload;
+
+    if (mode !== 0 && mode !== 1) return null;
+    const baseId = toBaseId(rawBase);
+    const base = typeof baseId === "string" ? getBase(catalog, baseId) : undefined;
+    if (!base) return null;
+
+    let slotEntries: [string, unknown][];
+    if (version < 3) {
+        if (!Array.isArray(rawSlots) || rawSlots.length !== 3) return null;
+        slotEntries = rawSlots
+            .map((charm, i): [string, unknown] => [LEGACY_SLOT_IDS[i], charm === null ? null : toCharmId(charm)])
+            .filter(([, charm]) => charm !== null);
+    } else {
+        if (!rawSlots || typeof rawSlots !== "object" || Array.isArray(rawSlots)) return null;
+        slotEntries = Object.entries(rawSlots);
+    }
+
+    // Every slot must exist on the base. Whether its charm is allowed there is
+    // left to compatibility.ts, so a link still opens after the rules change
+    const slots: DesignState["slots"] = {};
+    for (const [slotId, charmId] of slotEntries) {
+        const slot = base.slots.find(s => s.id === slotId);
+        const charm = isCharmId(charmId) ? getCharm(catalog, charmId) : undefined;
+        if (!slot || !charm) return null;
+        slots[slot.id] = charm.id;
+    }
+
+    // Text must fit the base's rules (and, for the slot, the base must have one)
+    const toText = (value: unknown): TextStyle | null => {
+        if (!Array.isArray(value) || value.length !== 4 || !base.text) return null;
+        const [text, fontId, color, curve] = value;
+        if (typeof text !== "string" || typeof fontId !== "string" || typeof color !== "string" || typeof curve !== "number") return null;
+        const style = { text, fontId, color, curve };
+        return isValidTextStyle(style, base.text.maxLength) ? style : null;
+    };
+    const slotText = rawSlotText === null ? null : toText(rawSlotText);
+    if (rawSlotText !== null && (!slotText || !base.text?.slot)) return null;
+
+    if (!Array.isArray(items) || !isFiniteNumber(zoom)) return null;
+
+    const manualItems: DesignItem[] = [];
+    for (const item of items) {
+        if (!Array.isArray(item) || (item.length !== 4 && item.length !== 6)) return null;
+        const [rawContent, x, y, z, rotation = 0, flipX = 0] = item;
+        const text = version >= 4 && Array.isArray(rawContent) && rawContent.length === 4 ? toText(rawContent) : null;
+        const uploadId = version >= 5 && Array.isArray(rawContent) && rawContent.length === 1 ? rawContent[0] : null;
+        if (uploadId !== null && (typeof uploadId !== "string" || !UPLOAD_ID_PATTERN.test(uploadId))) return null;
+        const charmId = text || uploadId ? null : toCharmId(rawContent);
+        if (!text && !uploadId && !isCharmId(charmId)) return null;
+        if (![x, y, z, rotation].every(isFiniteNumber)) return null;
+        if (flipX !== 0 && flipX !== 1) return null;
+        manualItems.push({
+            ...(text ? { type: 'text', ...text } : uploadId ? { type: 'upload', uploadId } : { type: 'charm', charmId: charmId as string }),
+            id: generateId(),
+            x: unpack(x),
+            y: unpack(y),
+            z: clampScale(unpack(z)),
+            rotation: normalizeRotation(rotation),
+            flipX: flipX === 1,
+        });
+    }
+
+    return {
+        mode: mode === 1 ? 'manual' : 'fixed',
+        baseId: base.id,
+        slots,
+        slotText,
+        manualItems,
+        // Same bounds as the zoom buttons
+        zoom: Math.min(Math.max(unpack(zoom), 0.4), 2),
+    };
+}
+
+/**
+ * Upload IDs in an encoded design, read without checking the rest of it
+ * against the catalog: an order still needs its images after the charms or
+ * base it used are gone (see pruneUploads).
+ */
+export function sharedUploadIds(encoded: string): string[] {
+    try {
+        const tuple: unknown = JSON.parse(fromBase64Url(encoded));
+        if (!Array.isArray(tuple) || typeof tuple[0] !== "number" || tuple[0] < 5 || !Array.isArray(tuple[4])) return [];
+        return (tuple[4] as unknown[]).flatMap(item => {
+            const content = Array.isArray(item) ? item[0] : null;
+            return Array.isArray(content) && content.length === 1 && typeof content[0] === "string" && UPLOAD_ID_PATTERN.test(content[0]) ? [content[0]] : [];
+        });
+    } catch {
+        return [];
+    }
+}
+
+/** Link that opens a design in the customizer, on its product type's page. */
+export function buildShareUrl(design: DesignState, catalog: Catalog, origin: string, encoded = encodeDesign(design)): string {
+    return `${origin}${customizerHref(designProductType(design, catalog).id)}?${SHARE_PARAM}=${encoded}`;
+}
@@ -0,0 +1,71 @@
+import { availability, Base, Catalog, Charm, getBase, getCharm } from "./catalog";
+import { Translate } from "./i18n";
+import { designCharmIds, OrderedDesign } from "./pricing";
+
+// Stock checks for designs. Shared by the customizer, which flags parts that
+// can't be ordered, and the order API, which refuses them and takes ordered
+// pieces out of stock (see catalogStore.ts). Only bases and charms with a
+// `stock` count are tracked; uploads and text are made to order. An order's
+// designs are counted together, so two designs can't each claim the last piece.
+
+export type StockIssue =
+    | { name: string; reason: 'soldOut' | 'hidden' }
+    | { name: string; reason: 'short'; left: number }; // Fewer left than the order needs
+
+/** Each base and charm an order is made of, with how many pieces it uses. */
+export function orderParts(designs: OrderedDesign[], catalog: Catalog): { item: Base | Charm; count: number }[] {
+    const parts = new Map<Base | Charm, number>();
+    const add = (item: Base | Charm | undefined, count: number) => {
+        if (item) parts.set(item, (parts.get(item) ?? 0) + count);
+    };
+    designs.forEach(({ design, quantity }) => {
+        add(getBase(catalog, design.baseId), quantity);
+        designCharmIds(design).forEach(id => add(getCharm(catalog, id), quantity));
+    });
+    return [...parts].map(([item, count]) => ({ item, count }));
+}
+
+/** What stands in the way of ordering the designs; empty when they can be ordered. */
+export function stockIssues(designs: OrderedDesign[], catalog: Catalog): StockIssue[] {
+    return orderParts(designs, catalog).flatMap(({ item, count }): StockIssue[] => {
+        const state = availability(item);
+        if (state !== 'available') return [{ name: item.name, reason: state }];
+        if (item.stock !== undefined && item.stock < count) return [{ name: item.name, reason: 'short', left: item.stock }];
+        return [];
+    });
+}
+
+/**
+ * The catalog with the designs' pieces taken out of stock (or, with `sign`
+ * -1, put back). Returns `catalog` itself when none of their parts are tracked.
+ */
+export function takeStock(catalog: Catalog, designs: OrderedDesign[], sign: 1 | -1 = 1): Catalog {
+    const used = new Map<Base | Charm, number>(
+        orderParts(designs, catalog).filter(p => p.item.stock !== undefined).map(p => [p.item, p.count * sign]),
+    );
+    if (used.size === 0) return catalog;
+    const take = <T extends Base | Charm>(item: T): T => {
+        const count = used.get(item);
+        return count === undefined || item.stock === undefined ? item : { ...item, stock: Math.max(0, item.stock - count) };
+    };
+    return { ...catalog, bases: catalog.bases.map(take), charms: catalog.charms.map(take) };
+}
+
+/** User-facing description of an issue, as the customizer lists them. */
+export function describeStockIssue(issue: StockIssue, t: Translate): string {
+    return issue.reason === 'short'
+        ? t("stock.issue.short", { name: issue.name, count: issue.left })
+        : t(`stock.issue.${issue.reason}`, { name: issue.name });
+}
+
+/** User-facing message for the order API: the issue and what to do about it. */
+export function stockIssueMessage(issue: StockIssue, t: Translate): string {
+    return `${describeStockIssue(issue, t)} ${t("stock.issuesHint")}`;
+}
+
+/** For the order API, under the catalog store's lock: check stock again and take the order's pieces. */
+export function reserveStock(catalog: Catalog, designs: OrderedDesign[]): { ok: true; catalog: Catalog } | { ok: false; issue: StockIssue } {
+    const issues = stockIssues(designs, catalog);
+    if (issues.length > 0) return { ok: false, issue: issues[0] };
+    return { ok: true, catalog: takeStock(catalog, designs) };
+}
@@ -0,0 +1,202 @@
+// Text items ("add my name"): styles, bundled fonts and rendering.
+//
+// A text item is rasterized into an offscreen canvas that then stands in for a
+// charm image, so placement, hit testing, the editor canvas and every export
+// treat text and charms the same way. Rendering is browser-only; the style
+// helpers at the top are also used server-side to validate shared designs.
+
+export type TextStyle = {
+    text: string;
+    fontId: string;
+    color: string; // #RRGGBB
+    curve: number; // -MAX_CURVE (smile) .. MAX_CURVE (arch); 0 = straight
+};
+
+// Fonts are loaded with next/font in the root layout, which exposes each
+// family through a CSS variable on <body>.
+export type TextFont = {
+    id: string;
+    name: string;
+    cssVar: string;
+    weight: number;
+    fallback: string;
+};
+
+export const TEXT_FONTS: TextFont[] = [
+    { id: "poppins", name: "Poppins", cssVar: "--font-poppins", weight: 700, fallback: "sans-serif" },
+    { id: "pacifico", name: "Pacifico", cssVar: "--font-pacifico", weight: 400, fallback: "cursive" },
+    { id: "bebas-neue", name: "Bebas Neue", cssVar: "--font-bebas-neue", weight: 400, fallback: "sans-serif" },
+    { id: "caveat", name: "Caveat", cssVar: "--font-caveat", weight: 700, fallback: "cursive" },
+];
+
+export const TEXT_COLORS = ["#111827", "#FFFFFF", "#EF4444", "#F59E0B", "#10B981", "#3B82F6", "#EC4899"];
+
+export const MAX_CURVE = 100;
+
+export const DEFAULT_TEXT_STYLE: TextStyle = { text: "", fontId: TEXT_FONTS[0].id, color: TEXT_COLORS[0], curve: 0 };
+
+const COLOR_PATTERN = /^#[0-9A-Fa-f]{6}$/;
+// Control characters (incl. newlines) can't be engraved on a single line
+const CONTROL_CHARS = /[\u0000-\u001F\u007F]/g;
+
+export const getTextFont = (id: string) => TEXT_FONTS.find(f => f.id === id);
+
+/** Strip what can't be printed and cut to the base's character limit. */
+export const cleanText = (text: string, maxLength: number) =>
+    Array.from(text.replace(CONTROL_CHARS, "")).slice(0, maxLength).join("");
+
+/** Whether a (decoded) style is usable as-is on a base allowing `maxLength` characters. */
+export function isValidTextStyle(style: TextStyle, maxLength: number): boolean {
+    return style.text.trim() !== ""
+        && cleanText(style.text, maxLength) === style.text
+        && getTextFont(style.fontId) !== undefined
+        && COLOR_PATTERN.test(style.color)
+        && Number.isInteger(style.curve) && Math.abs(style.curve) <= MAX_CURVE;
+}
+
+export const textStyle = ({ text, fontId, color, curve }: TextStyle): TextStyle => ({ text, fontId, color, curve });
+
+// -------------------
+// RENDERING
+// -------------------
+// Rendered large enough to stay sharp in 600 DPI exports
+const FONT_PX = 160;
+const LINE_HEIGHT = 1.25;
+// Room for glyphs that overhang their advance width (script fonts)
+const PADDING = FONT_PX * 0.2;
+const MAX_CACHED = 100;
+
+type GlyphPosition = { char: string; x: number; y: number; angle: number };
+type TextLayout = { glyphs: GlyphPosition[]; font: string; width: number; height: number; originX: number; originY: number };
+
+let scratch: CanvasRenderingContext2D | null = null;
+const cache = new Map<string, HTMLCanvasElement>();
+
+const cacheKey = (style: TextStyle) => JSON.stringify([style.text, style.fontId, style.color, style.curve]);
+
+function cssFont(style: TextStyle) {
+    const font = getTextFont(style.fontId) ?? TEXT_FONTS[0];
+    const family = getComputedStyle(document.body).getPropertyValue(font.cssVar).trim() || `"${font.name}"`;
+    return `${font.weight} ${FONT_PX}px ${family}, ${font.fallback}`;
+}
+
+function scratchContext() {
+    if (!scratch) scratch = document.createElement("canvas").getContext("2d");
+    if (!scratch) throw new Error("Canvas 2D is not supported");
+    return scratch;
+}
+
+// Glyph centers along a circular arc (or a straight line), relative to the
+// middle of the text, plus the padded bounding box of the result.
+function layoutText(style: TextStyle): TextLayout {
+    const ctx = scratchContext();
+    const font = cssFont(style);
+    ctx.font = font;
+    const lineHeight = FONT_PX * LINE_HEIGHT;
+
+    const chars = Array.from(style.text);
+    const widths = chars.map(char => ctx.measureText(char).width);
+    const total = widths.reduce((sum, w) => sum + w, 0);
+
+    let glyphs: GlyphPosition[];
+    let glyphWidths = widths;
+    if (style.curve === 0) {
+        // Drawn as one run to keep the font's kerning
+        glyphs = [{ char: style.text, x: 0, y: 0, angle: 0 }];
+        glyphWidths = [ctx.measureText(style.text).width];
+    } else {
+        // The full MAX_CURVE bends the text into a half circle
+        const sweep = (Math.abs(style.curve) / MAX_CURVE) * Math.PI;
+        const radius = total / sweep;
+        const direction = Math.sign(style.curve);
+        let offset = -total / 2;
+        glyphs = chars.map((char, i) => {
+            const angle = (offset + widths[i] / 2) / radius;
+            offset += widths[i];
+            return {
+                char,
+                x: radius * Math.sin(angle),
+                y: direction * radius * (1 - Math.cos(angle)),
+                angle: direction * angle,
+            };
+        });
+    }
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    glyphs.forEach((glyph, i) => {
+        const cos = Math.cos(glyph.angle);
+        const sin = Math.sin(glyph.angle);
+        [[-1, -1], [1, -1], [1, 1], [-1, 1]].forEach(([sx, sy]) => {
+            const lx = (sx * glyphWidths[i]) / 2;
+            const ly = (sy * lineHeight) / 2;
+            const x = glyph.x + lx * cos - ly * sin;
+            const y = glyph.y + lx * sin + ly * cos;
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        });
+    });
+
+    return {
+        glyphs,
+        font,
+        width: Math.ceil(maxX - minX + PADDING * 2),
+        height: Math.ceil(maxY - minY + PADDING * 2),
+        originX: PADDING - minX,
+        originY: PADDING - minY,
+    };
+}
+
+/** Height/width ratio the text will render at (with whatever fonts are loaded now). */
+export function textAspect(style: TextStyle): number {
+    if (!style.text) return 1;
+    const { width, height } = layoutText(style);
+    return height / width;
+}
+
+/** Rendered width of the text at FONT_PX, for keeping its size when the text changes. */
+export function textWidth(style: TextStyle): number {
+    return style.text ? layoutText(style).width : 0;
+}
+
+/** The text's rendered image if it's been loaded already. */
+export const cachedTextImage = (style: TextStyle) => cache.get(cacheKey(style));
+
+/** Render a text style into a transparent canvas, once its font has loaded. Null for empty text. */
+export async function loadTextImage(style: TextStyle): Promise<HTMLCanvasElement | null> {
+    if (!style.text) return null;
+    const key = cacheKey(style);
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    try {
+        await document.fonts.load(cssFont(style), style.text);
+    } catch (err) {
+        // Fall back to whatever the browser substitutes
+        console.error(`Failed to load font ${style.fontId}`, err);
+    }
+
+    const layout = layoutText(style);
+    const canvas = document.createElement("canvas");
+    canvas.width = layout.width;
+    canvas.height = layout.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+
+    ctx.font = layout.font;
+    ctx.fillStyle = style.color;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    layout.glyphs.forEach(glyph => {
+        ctx.save();
+        ctx.translate(layout.originX + glyph.x, layout.originY + glyph.y);
+        ctx.rotate(glyph.angle);
+        ctx.fillText(glyph.char, 0, 0);
+        ctx.restore();
+    });
+
+    if (cache.size >= MAX_CACHED) cache.delete(cache.keys().next().value!);
+    cache.set(key, canvas);
+    return canvas;
+}
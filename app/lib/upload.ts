@@ -0,0 +1,216 @@
+import { Base, CanvasLayout } from "./catalog";
+import { Translate } from "./i18n";
+import { MessageKey } from "./messages";
+
+// Customer-uploaded image charms ("put my pet on it").
+//
+// The photo is cropped, cleaned up and checked in the browser, then stored on
+// the server as a PNG (see uploadStore.ts) under a content-derived ID. Designs
+// only reference that ID, and the image is served back from UPLOAD_ROUTE, so
+// an uploaded charm loads, renders and exports like a catalog charm. The
+// processing functions are browser-only; the limits are shared with the API.
+
+export const UPLOAD_ROUTE = "/api/uploads";
+export const UPLOAD_TYPES = ["image/png", "image/jpeg"];
+export const MAX_FILE_BYTES = 10 * 1024 * 1024; // Photo as picked by the customer
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024; // Processed PNG sent to the server
+// Shortest side of the processed image; about 25 mm at 300 DPI
+export const MIN_UPLOAD_PX = 300;
+// Longest side; small enough that even a photo whose PNG barely compresses
+// (4 bytes a pixel) stays under MAX_UPLOAD_BYTES. About 90 mm at 300 DPI
+export const MAX_UPLOAD_PX = 1100;
+// Below this, an uploaded charm prints visibly soft at its current size
+export const MIN_PRINT_DPI = 300;
+
+export const UPLOAD_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+export const uploadUrl = (id: string) => `${UPLOAD_ROUTE}/${id}`;
+
+export type UploadShape = 'circle' | 'outline';
+
+export type UploadOptions = {
+    shape: UploadShape;
+    removeBackground: boolean;
+    tolerance: number; // 0..100: how far a color may be from the background's
+};
+
+export const DEFAULT_UPLOAD_OPTIONS: UploadOptions = { shape: 'circle', removeBackground: false, tolerance: 20 };
+
+export type UploadResult = { ok: true; canvas: HTMLCanvasElement } | { ok: false; error: MessageKey };
+
+/** Print resolution of an uploaded image `pixelWidth` wide at scale `z` on the base. */
+export function printDpi(pixelWidth: number, z: number, base: Base, layout: CanvasLayout): number {
+    const widthMm = (z / layout.baseScale) * base.size.widthMm;
+    return pixelWidth / (widthMm / 25.4);
+}
+
+// -------------------
+// PROCESSING
+// -------------------
+// Alpha at or below this counts as empty when trimming
+const ALPHA_THRESHOLD = 16;
+// Sticker border around an outline cut, as a fraction of the longer side
+const OUTLINE_WIDTH = 0.03;
+const OUTLINE_STEPS = 24;
+// Leaves room for the border within MAX_UPLOAD_PX
+const MAX_SOURCE_PX = Math.floor(MAX_UPLOAD_PX / (1 + OUTLINE_WIDTH * 2));
+
+function createCanvas(width: number, height: number) {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D is not supported");
+    return { canvas, ctx };
+}
+
+/** Check and decode a picked file. */
+export async function readImageFile(file: File): Promise<{ ok: true; img: HTMLImageElement } | { ok: false; error: MessageKey }> {
+    if (!UPLOAD_TYPES.includes(file.type)) return { ok: false, error: "upload.errorType" };
+    if (file.size > MAX_FILE_BYTES) return { ok: false, error: "upload.errorFileSize" };
+
+    const url = URL.createObjectURL(file);
+    const img = new window.Image();
+    img.src = url;
+    try {
+        await img.decode();
+        return { ok: true, img };
+    } catch {
+        return { ok: false, error: "upload.errorDecode" };
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
+
+// Clear the flat background: flood fill from the image's edges through every
+// pixel close enough to the average corner color.
+function removeBackground(data: ImageData, tolerance: number) {
+    const { width, height, data: px } = data;
+    const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+    const bg = [0, 1, 2].map(c => corners.reduce((sum, i) => sum + px[i * 4 + c], 0) / corners.length);
+    // Max RGB distance is ~441; 100 tolerance clears about half of the color cube
+    const maxDistance = (tolerance / 100) * 220;
+    const matches = (i: number) => px[i * 4 + 3] > 0 && Math.hypot(px[i * 4] - bg[0], px[i * 4 + 1] - bg[1], px[i * 4 + 2] - bg[2]) <= maxDistance;
+
+    const visited = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const push = (i: number) => {
+        if (!visited[i] && matches(i)) {
+            visited[i] = 1;
+            stack.push(i);
+        }
+    };
+    for (let x = 0; x < width; x++) {
+        push(x);
+        push((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+        push(y * width);
+        push(y * width + width - 1);
+    }
+    while (stack.length > 0) {
+        const i = stack.pop()!;
+        px[i * 4 + 3] = 0;
+        const x = i % width;
+        if (x > 0) push(i - 1);
+        if (x < width - 1) push(i + 1);
+        if (i >= width) push(i - width);
+        if (i < width * (height - 1)) push(i + width);
+    }
+}
+
+// Bounding box of the pixels that aren't (nearly) transparent
+function opaqueBounds(data: ImageData) {
+    const { width, height, data: px } = data;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (px[(y * width + x) * 4 + 3] <= ALPHA_THRESHOLD) continue;
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+function cropCircle(source: HTMLCanvasElement) {
+    const size = Math.min(source.width, source.height);
+    const { canvas, ctx } = createCanvas(size, size);
+    ctx.beginPath();
+    ctx.arc(size / 2, size / 2, size / 2, 0, Math.PI * 2);
+    ctx.clip();
+    ctx.drawImage(source, (source.width - size) / 2, (source.height - size) / 2, size, size, 0, 0, size, size);
+    return canvas;
+}
+
+// Trim to the subject and give it a white sticker border that follows its shape
+function cropOutline(source: HTMLCanvasElement, bounds: { x: number; y: number; width: number; height: number }) {
+    const border = Math.round(Math.max(bounds.width, bounds.height) * OUTLINE_WIDTH);
+
+    const silhouette = createCanvas(bounds.width, bounds.height);
+    silhouette.ctx.drawImage(source, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+    const subject = createCanvas(bounds.width, bounds.height);
+    subject.ctx.drawImage(silhouette.canvas, 0, 0);
+    silhouette.ctx.globalCompositeOperation = "source-in";
+    silhouette.ctx.fillStyle = "#FFFFFF";
+    silhouette.ctx.fillRect(0, 0, bounds.width, bounds.height);
+
+    const { canvas, ctx } = createCanvas(bounds.width + border * 2, bounds.height + border * 2);
+    for (let i = 0; i < OUTLINE_STEPS; i++) {
+        const angle = (i / OUTLINE_STEPS) * Math.PI * 2;
+        ctx.drawImage(silhouette.canvas, border + Math.cos(angle) * border, border + Math.sin(angle) * border);
+    }
+    ctx.drawImage(subject.canvas, border, border);
+    return canvas;
+}
+
+function cropUpload(img: HTMLImageElement, options: UploadOptions): UploadResult {
+    const scale = Math.min(1, MAX_SOURCE_PX / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.round(img.naturalWidth * scale);
+    const height = Math.round(img.naturalHeight * scale);
+    if (Math.min(width, height) < MIN_UPLOAD_PX) return { ok: false, error: "upload.errorResolution" };
+
+    const { canvas: source, ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    const data = ctx.getImageData(0, 0, width, height);
+    if (options.removeBackground) {
+        removeBackground(data, options.tolerance);
+        ctx.putImageData(data, 0, 0);
+    }
+
+    let canvas: HTMLCanvasElement;
+    if (options.shape === 'circle') {
+        canvas = cropCircle(source);
+    } else {
+        const bounds = opaqueBounds(data);
+        if (!bounds) return { ok: false, error: "upload.errorEmpty" };
+        canvas = cropOutline(source, bounds);
+    }
+
+    // Trimming or background removal can leave too little to print sharply
+    if (Math.min(canvas.width, canvas.height) < MIN_UPLOAD_PX) return { ok: false, error: "upload.errorResolution" };
+    return { ok: true, canvas };
+}
+
+/** Crop and clean up a picked image into the charm that will be printed. */
+export function processUpload(img: HTMLImageElement, options: UploadOptions): UploadResult {
+    try {
+        return cropUpload(img, options);
+    } catch (err) {
+        // No usable canvas (see createCanvas)
+        console.error("Image processing failed", err);
+        return { ok: false, error: "upload.errorCanvas" };
+    }
+}
+
+/** Store a processed image on the server; resolves to its upload ID, or rejects with a message in `t`'s language. */
+export async function uploadImage(canvas: HTMLCanvasElement, t: Translate): Promise<string> {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+    if (!blob) throw new Error(t("upload.errorCanvas"));
+    const response = await fetch(UPLOAD_ROUTE, { method: "POST", headers: { "Content-Type": "image/png" }, body: blob });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok || typeof result.id !== "string") throw new Error(result.error || t("upload.failed"));
+    return result.id;
+}
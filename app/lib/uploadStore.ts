@@ -0,0 +1,122 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { savePngByContent } from "./fileStore";
+import { Translate } from "./i18n";
+import { rateLimiter } from "./rateLimit";
+import { MAX_UPLOAD_PX, MIN_UPLOAD_PX, UPLOAD_ID_PATTERN } from "./upload";
+
+// File-based store for uploaded charm images. Server-only: import from route
+// handlers, never from client components.
+//
+// Each upload is one PNG in UPLOADS_DIR (default data/uploads), named by a
+// hash of its bytes: re-uploading the same image reuses the file, and a file
+// never changes once an order points at it.
+//
+// Anyone can upload, so each client gets RATE_LIMIT uploads per hour and the
+// store as a whole UPLOADS_MAX_BYTES (default 2 GB). Uploads no order uses
+// are kept for RETENTION_MS, long enough to order a saved design, then
+// pruned. Designs kept in a browser can outlive that; the customizer checks
+// their uploads (see useMissingUploads.ts) and asks for them again.
+
+const UPLOADS_DIR = process.env.UPLOADS_DIR || path.join(process.cwd(), "data", "uploads");
+const MAX_STORED_BYTES = Number(process.env.UPLOADS_MAX_BYTES) || 2 * 1024 * 1024 * 1024;
+
+const RATE_LIMIT = 30;
+const RATE_WINDOW_MS = 60 * 60 * 1000;
+
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const UPLOAD_FILE_PATTERN = /^([0-9a-f]{32})\.png$/;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const uploadPath = (id: string) => path.join(UPLOADS_DIR, `${id}.png`);
+
+/** Pixel size of a PNG, from its header; null when the bytes aren't a PNG. */
+export function pngSize(bytes: Buffer): { width: number; height: number } | null {
+    // Signature, then the IHDR chunk with width and height
+    if (bytes.length < 24 || !bytes.subarray(0, 8).equals(PNG_SIGNATURE) || bytes.toString("ascii", 12, 16) !== "IHDR") return null;
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) };
+}
+
+/**
+ * Check that bytes are a PNG the customizer could have produced. Returns a
+ * user-facing error message, or null when it's fine.
+ */
+export function validatePng(bytes: Buffer, t: Translate): string | null {
+    const size = pngSize(bytes);
+    if (!size) return t("api.image.notPng");
+    const { width, height } = size;
+    if (Math.min(width, height) < MIN_UPLOAD_PX) return t("api.image.resolutionLow", { min: MIN_UPLOAD_PX });
+    if (Math.max(width, height) > MAX_UPLOAD_PX) return t("api.image.resolutionHigh", { max: MAX_UPLOAD_PX });
+    return null;
+}
+
+/** Store a validated PNG and return its upload ID. */
+export async function saveUpload(bytes: Buffer): Promise<string> {
+    return savePngByContent(UPLOADS_DIR, bytes);
+}
+
+export async function readUpload(id: string): Promise<Buffer | null> {
+    if (!UPLOAD_ID_PATTERN.test(id)) return null;
+    try {
+        return await fs.readFile(uploadPath(id));
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+    }
+}
+
+export async function uploadExists(id: string): Promise<boolean> {
+    if (!UPLOAD_ID_PATTERN.test(id)) return false;
+    try {
+        await fs.access(uploadPath(id));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// -------------------
+// LIMITS
+// -------------------
+let lastPrune = 0;
+
+/** Count an upload from `client` (see clientAddress); false once it's over RATE_LIMIT. */
+export const allowUpload = rateLimiter(RATE_LIMIT, RATE_WINDOW_MS);
+
+async function storedUploads(): Promise<{ id: string; size: number; mtimeMs: number }[]> {
+    let names: string[];
+    try {
+        names = await fs.readdir(UPLOADS_DIR);
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+    }
+    const ids = names.flatMap(name => UPLOAD_FILE_PATTERN.exec(name)?.[1] ?? []);
+    const stats = await Promise.all(ids.map(id => fs.stat(uploadPath(id)).catch(() => null)));
+    return ids.flatMap((id, i) => {
+        const stat = stats[i];
+        return stat ? [{ id, size: stat.size, mtimeMs: stat.mtimeMs }] : [];
+    });
+}
+
+/** Whether another `bytes` fit within the store's MAX_STORED_BYTES. */
+export async function hasUploadRoom(bytes: number): Promise<boolean> {
+    const stored = (await storedUploads()).reduce((sum, upload) => sum + upload.size, 0);
+    return stored + bytes <= MAX_STORED_BYTES;
+}
+
+/**
+ * Remove uploads older than RETENTION_MS that no order uses (re-uploading an
+ * image renews it). Runs at most once per PRUNE_INTERVAL_MS; `usedIds` is
+ * only called when it does.
+ */
+export async function pruneUploads(usedIds: () => Promise<Set<string>>, now = Date.now()): Promise<void> {
+    if (now - lastPrune < PRUNE_INTERVAL_MS) return;
+    lastPrune = now;
+    const used = await usedIds();
+    const stale = (await storedUploads()).filter(upload => now - upload.mtimeMs > RETENTION_MS && !used.has(upload.id));
+    await Promise.all(stale.map(upload => fs.rm(uploadPath(upload.id), { force: true })));
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useCallback, useRef, useState, SetStateAction } from "react";
+
+// Undo/redo stack over a single state value.
+//
+// Every `set` records an entry unless called with `{ record: false }`;
+// `reset` replaces the value and clears both stacks.
+// Between `beginGesture()` and `endGesture()` updates are applied live but
+// collapse into a single entry (e.g. one per drag instead of one per
+// pointer move).
+
+type HistoryState<T> = {
+    past: T[];
+    present: T;
+    future: T[];
+};
+
+type HistoryOptions<T> = {
+    // Carry parts of the current value over when jumping through history
+    // (e.g. keep the zoom level untouched by undo).
+    merge?: (restored: T, current: T) => T;
+    limit?: number;
+};
+
+export function useHistory<T>(initial: T, { merge, limit = 100 }: HistoryOptions<T> = {}) {
+    const [history, setHistory] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+    const gestureStart = useRef<T | null>(null);
+
+    const set = useCallback((action: SetStateAction<T>, { record = true }: { record?: boolean } = {}) => {
+        // Decide now, not inside the updater: the gesture may have ended by the time React runs it
+        const shouldRecord = record && gestureStart.current === null;
+        setHistory(h => {
+            const next = typeof action === "function" ? (action as (prev: T) => T)(h.present) : action;
+            if (Object.is(next, h.present)) return h;
+            if (!shouldRecord) return { ...h, present: next };
+            return { past: [...h.past, h.present].slice(-limit), present: next, future: [] };
+        });
+    }, [limit]);
+
+    const present = history.present;
+    const beginGesture = useCallback(() => {
+        gestureStart.current = present;
+    }, [present]);
+
+    const endGesture = useCallback(() => {
+        const start = gestureStart.current;
+        gestureStart.current = null;
+        if (start === null) return;
+        setHistory(h => h.present === start
+            ? h
+            : { past: [...h.past, start].slice(-limit), present: h.present, future: [] });
+    }, [limit]);
+
+    const reset = useCallback((value: T) => {
+        gestureStart.current = null;
+        setHistory({ past: [], present: value, future: [] });
+    }, []);
+
+    const undo = useCallback(() => {
+        setHistory(h => {
+            if (h.past.length === 0) return h;
+            const previous = h.past[h.past.length - 1];
+            return {
+                past: h.past.slice(0, -1),
+                present: merge ? merge(previous, h.present) : previous,
+                future: [h.present, ...h.future],
+            };
+        });
+    }, [merge]);
+
+    const redo = useCallback(() => {
+        setHistory(h => {
+            if (h.future.length === 0) return h;
+            const [next, ...rest] = h.future;
+            return {
+                past: [...h.past, h.present],
+                present: merge ? merge(next, h.present) : next,
+                future: rest,
+            };
+        });
+    }, [merge]);
+
+    return {
+        state: present,
+        set,
+        reset,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+        beginGesture,
+        endGesture,
+    };
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { uploadUrl } from "./upload";
+
+const NONE = new Set<string>();
+
+// Each upload is checked once per page load. A check that fails (offline,
+// server error) counts as the upload being there.
+const checks = new Map<string, Promise<boolean>>();
+
+function isMissing(id: string): Promise<boolean> {
+    let check = checks.get(id);
+    if (!check) {
+        check = fetch(uploadUrl(id), { method: "HEAD", cache: "no-store" }).then(response => response.status === 404, () => false);
+        checks.set(id, check);
+    }
+    return check;
+}
+
+// The uploads among `ids` the server no longer has. Designs kept in the
+// browser can outlive their uploads (see pruneUploads in uploadStore.ts), and
+// an order using one is refused, so the customizer flags them up front.
+export function useMissingUploads(ids: string[]): Set<string> {
+    const [missing, setMissing] = useState(NONE);
+    const key = [...new Set(ids)].sort().join(",");
+    useEffect(() => {
+        if (!key) return;
+        let cancelled = false;
+        const unique = key.split(",");
+        Promise.all(unique.map(isMissing)).then(results => {
+            if (!cancelled) setMissing(new Set(unique.filter((_, i) => results[i])));
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [key]);
+    return key ? missing : NONE;
+}
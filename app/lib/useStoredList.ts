@@ -0,0 +1,12 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { StoredList } from "./designStorage";
+
+const EMPTY: never[] = [];
+
+// A list from localStorage (see designStorage.ts), kept in sync with it,
+// including changes made in other tabs. Empty during server rendering.
+export function useStoredList<T>(store: StoredList<T>): T[] {
+    return useSyncExternalStore(store.subscribe, store.list, () => EMPTY);
+}
@@ -0,0 +1,247 @@
+import { Catalog } from "./catalog";
+import { DesignState } from "./design";
+import { ItemImage, toRadians } from "./geometry";
+import { LoadImage, loadDesign, toPhysical } from "./printExport";
+
+// Vector layouts for the cutting/printing shop.
+//
+// Both formats are built from the same layout, in millimetres from the base's
+// top-left corner (y down): every part is an embedded image placed at its
+// exact position, size, rotation and flip, on an "Artwork" layer, with a
+// separate "Cut Lines" layer of hairline outlines (each part's rotated
+// bounding box) for the shop to trace or offset from.
+
+export type VectorPart = {
+    id: string; // Catalog ID, "text" or "upload-<upload ID>"
+    img: ItemImage;
+    xMm: number; // Center
+    yMm: number;
+    widthMm: number;
+    heightMm: number;
+    rotation: number; // Degrees, clockwise
+    flipX: boolean;
+};
+
+export type VectorLayout = {
+    widthMm: number;
+    heightMm: number;
+    parts: VectorPart[]; // Base first, then charms bottom-most first
+};
+
+const CUT_COLOR = "#FF0000";
+const CUT_WIDTH_MM = 0.1;
+
+export async function buildVectorLayout(design: DesignState, catalog: Catalog, loadImage: LoadImage): Promise<VectorLayout> {
+    const { base, baseImg, baseAspect, layout, placements, images } = await loadDesign(design, catalog, loadImage);
+    const { widthMm, heightMm } = base.size;
+
+    const parts: VectorPart[] = [
+        { id: base.id, img: baseImg, xMm: widthMm / 2, yMm: heightMm / 2, widthMm, heightMm, rotation: 0, flipX: false },
+    ];
+    toPhysical(placements, base, baseAspect, layout).forEach((p, idx) => {
+        const img = images[idx];
+        if (!img) return;
+        parts.push({
+            id: p.type === 'text' ? "text" : p.type === 'upload' ? `upload-${p.uploadId}` : p.charmId,
+            img,
+            xMm: p.xMm,
+            yMm: p.yMm,
+            widthMm: p.widthMm,
+            heightMm: p.widthMm * (img.height / img.width),
+            rotation: p.rotation,
+            flipX: p.flipX,
+        });
+    });
+    return { widthMm, heightMm, parts };
+}
+
+// Helper: corners of a part's rotated bounding box, clockwise from top-left
+function partCorners(part: VectorPart) {
+    const rad = toRadians(part.rotation);
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+        const lx = (sx * part.widthMm) / 2;
+        const ly = (sy * part.heightMm) / 2;
+        return { x: part.xMm + lx * cos - ly * sin, y: part.yMm + lx * sin + ly * cos };
+    });
+}
+
+// Helper: draw an image onto a scratch canvas at its natural size
+function imageCanvas(img: ItemImage) {
+    const canvas = document.createElement("canvas");
+    canvas.width = (img instanceof HTMLImageElement && img.naturalWidth) || img.width;
+    canvas.height = (img instanceof HTMLImageElement && img.naturalHeight) || img.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D is not supported");
+    ctx.drawImage(img, 0, 0);
+    return { canvas, ctx };
+}
+
+const num = (n: number) => Number(n.toFixed(3)).toString();
+
+// -------------------
+// SVG
+// -------------------
+const escapeXml = (text: string) =>
+    text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export function renderSvg(layout: VectorLayout): string {
+    // Embed each distinct image once and reference it with <use>
+    const sources = new Map<ItemImage, string>();
+    layout.parts.forEach(part => {
+        if (!sources.has(part.img)) sources.set(part.img, `img-${sources.size}`);
+    });
+    const defs = [...sources].map(([img, id]) =>
+        `    <image id="${id}" width="1" height="1" preserveAspectRatio="none" xlink:href="${imageCanvas(img).canvas.toDataURL("image/png")}"/>`);
+
+    const artwork = layout.parts.map(part => {
+        const flip = part.flipX ? " scale(-1 1)" : "";
+        return `    <use data-part="${escapeXml(part.id)}" xlink:href="#${sources.get(part.img)}" ` +
+            `transform="translate(${num(part.xMm)} ${num(part.yMm)}) rotate(${num(part.rotation)})${flip} ` +
+            `translate(${num(-part.widthMm / 2)} ${num(-part.heightMm / 2)}) scale(${num(part.widthMm)} ${num(part.heightMm)})"/>`;
+    });
+
+    const cutLines = layout.parts.map(part => {
+        const points = partCorners(part).map(c => `${num(c.x)},${num(c.y)}`).join(" ");
+        return `    <polygon data-part="${escapeXml(part.id)}" points="${points}"/>`;
+    });
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+        `xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+        `width="${num(layout.widthMm)}mm" height="${num(layout.heightMm)}mm" viewBox="0 0 ${num(layout.widthMm)} ${num(layout.heightMm)}">`,
+        `  <defs>`,
+        ...defs,
+        `  </defs>`,
+        `  <g id="artwork" inkscape:groupmode="layer" inkscape:label="Artwork">`,
+        ...artwork,
+        `  </g>`,
+        `  <g id="cut-lines" inkscape:groupmode="layer" inkscape:label="Cut Lines" fill="none" stroke="${CUT_COLOR}" stroke-width="${CUT_WIDTH_MM}">`,
+        ...cutLines,
+        `  </g>`,
+        `</svg>`,
+        ``,
+    ].join("\n");
+}
+
+// -------------------
+// PDF
+// -------------------
+// Minimal single-page PDF writer: images as Flate-compressed RGB with an alpha
+// soft mask, and the two layers as optional content groups.
+
+const PT_PER_MM = 72 / 25.4;
+
+async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function imageStreams(img: ItemImage) {
+    const { canvas, ctx } = imageCanvas(img);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const pixels = canvas.width * canvas.height;
+    const rgb = new Uint8Array(pixels * 3);
+    const alpha = new Uint8Array(pixels);
+    for (let i = 0; i < pixels; i++) {
+        rgb[i * 3] = data[i * 4];
+        rgb[i * 3 + 1] = data[i * 4 + 1];
+        rgb[i * 3 + 2] = data[i * 4 + 2];
+        alpha[i] = data[i * 4 + 3];
+    }
+    return { width: canvas.width, height: canvas.height, rgb: await deflate(rgb), alpha: await deflate(alpha) };
+}
+
+export async function renderPdf(layout: VectorLayout): Promise<Blob> {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (part: string | Uint8Array) => {
+        const bytes = typeof part === "string" ? encoder.encode(part) : part;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    // Objects are numbered in the order they're written, starting at 1
+    const object = (body: string, stream?: Uint8Array) => {
+        offsets.push(length);
+        const id = offsets.length;
+        if (stream) {
+            write(`${id} 0 obj\n<< ${body} /Length ${stream.length} >>\nstream\n`);
+            write(stream);
+            write(`\nendstream\nendobj\n`);
+        } else {
+            write(`${id} 0 obj\n${body}\nendobj\n`);
+        }
+        return id;
+    };
+
+    write("%PDF-1.5\n%\xE2\xE3\xCF\xD3\n");
+
+    // Fixed ids: 1 catalog, 2 pages, 3 page, 4/5 layers; images follow
+    const images = new Map<ItemImage, string>();
+    layout.parts.forEach(part => {
+        if (!images.has(part.img)) images.set(part.img, `Im${images.size}`);
+    });
+    const imageIds = 6;
+    const contentId = imageIds + images.size * 2;
+    const xobjects = [...images.values()].map((name, i) => `/${name} ${imageIds + i * 2 + 1} 0 R`).join(" ");
+
+    const widthPt = layout.widthMm * PT_PER_MM;
+    const heightPt = layout.heightMm * PT_PER_MM;
+
+    object(`<< /Type /Catalog /Pages 2 0 R /OCProperties << /OCGs [4 0 R 5 0 R] /D << /Order [4 0 R 5 0 R] /ON [4 0 R 5 0 R] >> >> >>`);
+    object(`<< /Type /Pages /Kids [3 0 R] /Count 1 >>`);
+    object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(widthPt)} ${num(heightPt)}] ` +
+        `/Resources << /XObject << ${xobjects} >> /Properties << /Art 4 0 R /Cut 5 0 R >> >> /Contents ${contentId} 0 R >>`);
+    object(`<< /Type /OCG /Name (Artwork) >>`);
+    object(`<< /Type /OCG /Name (Cut Lines) >>`);
+
+    for (const img of images.keys()) {
+        const { width, height, rgb, alpha } = await imageStreams(img);
+        const maskId = offsets.length + 1;
+        object(`/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`, alpha);
+        object(`/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /SMask ${maskId} 0 R`, rgb);
+    }
+
+    // Work in millimetres with y pointing down, like the layout
+    const ops: string[] = [`${num(PT_PER_MM)} 0 0 ${num(-PT_PER_MM)} 0 ${num(heightPt)} cm`];
+
+    ops.push("/OC /Art BDC");
+    layout.parts.forEach(part => {
+        const rad = toRadians(part.rotation);
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        const w = part.widthMm;
+        const h = part.heightMm;
+        ops.push("q");
+        ops.push(`1 0 0 1 ${num(part.xMm)} ${num(part.yMm)} cm`);
+        ops.push(`${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} 0 0 cm`);
+        if (part.flipX) ops.push("-1 0 0 1 0 0 cm");
+        // Image space is a unit square with y up; flip it back into our y-down frame
+        ops.push(`${num(w)} 0 0 ${num(-h)} ${num(-w / 2)} ${num(h / 2)} cm`);
+        ops.push(`/${images.get(part.img)} Do`);
+        ops.push("Q");
+    });
+    ops.push("EMC");
+
+    ops.push("/OC /Cut BDC");
+    ops.push(`q 1 0 0 RG ${CUT_WIDTH_MM} w`);
+    layout.parts.forEach(part => {
+        const [first, ...rest] = partCorners(part);
+        ops.push(`${num(first.x)} ${num(first.y)} m ${rest.map(c => `${num(c.x)} ${num(c.y)} l`).join(" ")} h S`);
+    });
+    ops.push("Q", "EMC");
+
+    object("/Filter /FlateDecode", await deflate(encoder.encode(ops.join("\n"))));
+
+    const xrefOffset = length;
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${offset.toString().padStart(10, "0")} 00000 n \n`));
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: "application/pdf" });
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { MessageCircle, Minus, Plus } from "lucide-react";
+import { getProductType } from "../../lib/catalog";
+import { WHATSAPP_NUMBER } from "../../lib/constants";
+import { customizerHref } from "../../lib/design";
+import { MAX_QUANTITY } from "../../lib/orders";
+import { formatIDR } from "../../lib/pricing";
+import { Product, variantPrice } from "../../lib/products";
+import { useCatalog } from "../../components/CatalogProvider";
+import { useT } from "../../components/LocaleProvider";
+
+// Gallery, variant picker and WhatsApp order button of a product page.
+export default function ProductDetail({ product }: { product: Product }) {
+    const t = useT();
+    const catalog = useCatalog();
+    const [imageIndex, setImageIndex] = useState(0);
+    const [variantId, setVariantId] = useState(product.variants[0]?.id ?? null);
+    const [quantity, setQuantity] = useState(1);
+
+    const variant = product.variants.find(v => v.id === variantId);
+    const customizer = product.customizer ? getProductType(catalog, product.customizer) : undefined;
+    const unitPrice = variantPrice(product, variant);
+
+    const selectVariant = (id: string) => {
+        setVariantId(id);
+        // Show the variant's own image, if it has one
+        const image = product.variants.find(v => v.id === id)?.image;
+        if (image && product.images.includes(image)) setImageIndex(product.images.indexOf(image));
+    };
+
+    const setClampedQuantity = (value: number) =>
+        setQuantity(Math.min(Math.max(Number.isFinite(value) ? Math.round(value) : 1, 1), MAX_QUANTITY));
+
+    const orderText = [
+        t("product.whatsappGreeting", { product: product.name }),
+        "",
+        ...(variant ? [t("product.whatsappVariant", { variant: variant.name })] : []),
+        t("whatsapp.quantity", { count: quantity }),
+        t("whatsapp.total", { amount: formatIDR(unitPrice * quantity) }),
+    ].join("\n");
+    const orderUrl = `https://wa.me/${WHATSAPP_NUMBER}?text=${encodeURIComponent(orderText)}`;
+
+    return (
+        <div className="grid lg:grid-cols-2 gap-12">
+            {/* Gallery */}
+            <div>
+                <div className="relative aspect-[4/5] w-full overflow-hidden rounded-2xl bg-gray-50 border border-gray-100">
+                    <Image
+                        src={product.images[imageIndex]}
+                        alt={t("product.image", { name: product.name, index: imageIndex + 1 })}
+                        fill
+                        priority
+                        sizes="(min-width: 1024px) 50vw, 100vw"
+                        className="object-cover"
+                    />
+                </div>
+                {product.images.length > 1 && (
+                    <div className="mt-4 grid grid-cols-5 gap-3">
+                        {product.images.map((src, i) => (
+                            <button
+                                key={src}
+                                type="button"
+                                onClick={() => setImageIndex(i)}
+                                aria-label={t("product.showImage", { index: i + 1 })}
+                                aria-pressed={i === imageIndex}
+                                className={`relative aspect-square rounded-xl overflow-hidden border-2 transition-colors ${i === imageIndex ? 'border-brand-mint' : 'border-transparent hover:border-brand-mint/50'}`}
+                            >
+                                <Image src={src} alt="" fill sizes="120px" className="object-cover" />
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Details */}
+            <div className="space-y-6">
+                <div>
+                    <h1 className="text-3xl lg:text-4xl font-extrabold text-gray-900">{product.name}</h1>
+                    <p className="mt-3 text-2xl font-bold text-brand-mint">{formatIDR(unitPrice)}</p>
+                </div>
+                <p className="text-gray-600 leading-relaxed">{product.description}</p>
+
+                {product.variants.length > 0 && (
+                    <div>
+                        <div className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wider">{t("product.variant")}</div>
+                        <div role="group" aria-label={t("product.variant")} className="flex flex-wrap gap-2">
+                            {product.variants.map((v) => (
+                                <button
+                                    key={v.id}
+                                    type="button"
+                                    onClick={() => selectVariant(v.id)}
+                                    aria-pressed={v.id === variantId}
+                                    className={`px-4 py-2 text-sm font-semibold rounded-lg border transition-colors ${v.id === variantId ? 'border-brand-mint bg-brand-mint/5 text-gray-900' : 'border-gray-200 text-gray-600 hover:border-brand-mint/50'}`}
+                                >
+                                    {v.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <div>
+                    <div className="text-xs font-semibold text-gray-500 mb-2 uppercase tracking-wider">{t("order.quantity")}</div>
+                    <div className="inline-flex items-center border border-gray-200 rounded-lg">
+                        <button type="button" onClick={() => setClampedQuantity(quantity - 1)} aria-label={t("product.decrease")} className="p-2.5 text-gray-500 hover:text-gray-900 disabled:opacity-40" disabled={quantity <= 1}>
+                            <Minus size={16} />
+                        </button>
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_QUANTITY}
+                            value={quantity}
+                            onChange={(e) => setClampedQuantity(parseInt(e.target.value))}
+                            aria-label={t("order.quantity")}
+                            className="w-16 text-center text-sm font-semibold focus:outline-none"
+                        />
+                        <button type="button" onClick={() => setClampedQuantity(quantity + 1)} aria-label={t("product.increase")} className="p-2.5 text-gray-500 hover:text-gray-900 disabled:opacity-40" disabled={quantity >= MAX_QUANTITY}>
+                            <Plus size={16} />
+                        </button>
+                    </div>
+                </div>
+
+                <div className="pt-2 space-y-3">
+                    <a
+                        href={orderUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="w-full flex items-center justify-center gap-2 bg-green-500 hover:bg-green-600 text-white font-bold py-3.5 rounded-xl shadow-lg transition-all hover:-translate-y-0.5"
+                    >
+                        <MessageCircle size={20} /> {t("product.order", { amount: formatIDR(unitPrice * quantity) })}
+                    </a>
+                    {customizer && (
+                        <Link href={customizerHref(customizer.id)} className="block text-center text-sm font-semibold text-brand-mint hover:text-emerald-600">
+                            {t("product.customize", { product: customizer.name })} &rarr;
+                        </Link>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,57 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ChevronLeft } from "lucide-react";
+import Navbar from "../../components/Navbar";
+import Footer from "../../components/Footer";
+import ProductDetail from "./ProductDetail";
+import { defaultCatalog } from "../../lib/catalog";
+import { assertCatalogImages } from "../../lib/catalogAssets";
+import { getCatalog } from "../../lib/catalogStore";
+import { getProduct, listProducts } from "../../lib/products";
+import { getT } from "../../lib/serverLocale";
+
+type ProductPageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+// Only catalog products have pages
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  // Fails the build on a missing image; the live catalog is checked as it loads (see catalogStore.ts)
+  assertCatalogImages(defaultCatalog);
+  return listProducts(defaultCatalog).map((product) => ({ slug: product.slug }));
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const product = getProduct(await getCatalog(), slug);
+  if (!product) return {};
+  return {
+    title: `${product.name} | Ongoing Project`,
+    description: product.description,
+  };
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const { slug } = await params;
+  const product = getProduct(await getCatalog(), slug);
+  if (!product) notFound();
+  const t = await getT();
+
+  return (
+    <main className="min-h-screen bg-white">
+      <Navbar />
+      <section className="pt-28 pb-20">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <Link href="/#products" className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-brand-mint mb-8">
+            <ChevronLeft size={16} /> {t("product.back")}
+          </Link>
+          <ProductDetail product={product} />
+        </div>
+      </section>
+      <Footer />
+    </main>
+  );
+}